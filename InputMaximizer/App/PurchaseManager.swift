@@ -62,7 +62,14 @@ final class PurchaseManager: ObservableObject {
     func buyCredits(_ product: Product) async {
         do {
             print("🛒 buyCredits(): purchasing \(product.id)")
-            let result = try await product.purchase()
+            // Bind the purchase to this device; without a token only the legacy receipt path can redeem it
+            var options: Set<Product.PurchaseOption> = []
+            if let token = try? await GeneratorService.proxy.appAccountToken(deviceId: DeviceID.current) {
+                options.insert(.appAccountToken(token))
+            } else {
+                print("⚠️ buyCredits(): could not fetch appAccountToken, purchasing without it")
+            }
+            let result = try await product.purchase(options: options)
             print("🧾 buyCredits(): purchase result = \(result)")
             try await handlePurchaseResult(result, purchasedID: product.id)
         } catch {
@@ -101,6 +101,8 @@ struct ProxyClient {
         let body = String(data: data, encoding: .utf8) ?? "<non-utf8>"
         print("🌐 redeemSigned: status=\(http.statusCode) body=\(body.prefix(400))")
 
+        // 422 means no transaction was credited (e.g. bought without an appAccountToken):
+        // callers fall back to the receipt and must not finish the transaction
         guard (200..<300).contains(http.statusCode) else {
             throw NSError(domain: "Proxy", code: http.statusCode,
                           userInfo: [NSLocalizedDescriptionKey: body])
@@ -110,6 +112,25 @@ struct ProxyClient {
         return (obj?["granted"] as? Int ?? 0, obj?["balance"] as? Int ?? 0)
     }
 
+    // MARK: - Credits: appAccountToken
+    /// Server-issued per-device UUID. Pass it as `appAccountToken` when purchasing so the
+    /// server only credits the transaction to this device.
+    func appAccountToken(deviceId: String) async throws -> UUID {
+        var req = URLRequest(url: baseURL.appendingPathComponent("/credits/account-token"))
+        req.httpMethod = "GET"
+        req.setValue(deviceId, forHTTPHeaderField: "X-Device-Id")
+
+        let (data, resp) = try await ProxyClient.session.data(for: req)
+        guard let http = resp as? HTTPURLResponse, (200..<300).contains(http.statusCode) else {
+            throw URLError(.badServerResponse)
+        }
+        let j = try JSONSerialization.jsonObject(with: data) as? [String: Any]
+        guard let s = j?["appAccountToken"] as? String, let token = UUID(uuidString: s) else {
+            throw URLError(.cannotParseResponse)
+        }
+        return token
+    }
+
     // MARK: - Credits: balance
     func balance(deviceId: String) async throws -> Int {
         var req = URLRequest(url: baseURL.appendingPathComponent("/credits/balance"))
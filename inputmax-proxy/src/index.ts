@@ -1,14 +1,32 @@
 // src/index.ts
 
+import { DurableObject } from "cloudflare:workers";
+
 export interface Env {
   OPENAI_API_KEY: string;
   CREDITS: KVNamespace;
 
+  /** Per-device credit ledger (balance, reserved, job holds) */
+  LEDGER: DurableObjectNamespace<DeviceLedger>;
+
+  /** Lesson generation jobs (one per jobId) */
+  LESSONS: DurableObjectNamespace<LessonJob>;
+
+  /** Multi-part lesson series (one per seriesId) */
+  SERIES: DurableObjectNamespace<LessonSeries>;
+
+  /** Promo and gift codes with their redemption counters (single instance) */
+  PROMOS: DurableObjectNamespace<PromoCodes>;
+
+  /** Audio objects (TTS cache, generated lessons) */
+  AUDIO: R2Bucket;
+
   // App Store Server API credentials (App Store Connect → Users and Access → Keys → In-App Purchases)
   APPSTORE_ISSUER_ID: string;   // e.g. "57246542-96fe-1a63-e053-0824d011072a"
   APPSTORE_KEY_ID: string;      // 10-char key id
   APPSTORE_PRIVATE_KEY: string; // contents of the .p8 (BEGIN PRIVATE KEY ... END PRIVATE KEY)
 
+  // Legacy App Review code, served as a built-in promo code (see reviewPromoCode)
   REVIEW_CODE: string;          // e.g. "APPREVIEW2025" (set via wrangler secret)
   REVIEW_GRANT_AMOUNT: string;  // e.g. "20" (as string; set via wrangler secret)
 
@@ -18,6 +36,30 @@ export interface Env {
   /** Optional: admin secret to access diagnostics endpoints */
   ADMIN_SECRET?: string;
   
+  /** Optional: JSON overrides for the job price table, e.g. {"completionTokensPer1k":0.004} */
+  PRICE_TABLE?: string;
+
+  /** Optional: comma-separated models /chat accepts (default: the models the app uses) */
+  CHAT_MODEL_ALLOWLIST?: string;
+
+  /** Optional: JSON per-route provider/model choice, e.g. {"tts":{"provider":"compatible","model":"kokoro"}} */
+  MODEL_ROUTES?: string;
+
+  /** Optional: JSON per-category moderation actions for /chat, e.g. {"violence":"block","*":"allow"} */
+  MODERATION_POLICY?: string;
+
+  /** Optional: base URL (…/v1) and key of an OpenAI-compatible server for the "compatible" provider */
+  COMPATIBLE_BASE_URL?: string;
+  COMPATIBLE_API_KEY?: string;
+
+  /** Optional: JSON voice pools for dialogue casting by language, e.g. {"Japanese":["nova","onyx"],"*":["coral","ash"]} */
+  VOICE_CASTING?: string;
+
+  /** Optional: extra trusted root cert SHA-256 fingerprints (hex, comma-separated) – local testing only */
+  APPSTORE_EXTRA_ROOT_SHA256?: string;
+  /** Optional: send App Store Server API calls to this base URL (a local stub) instead of Apple – testing only */
+  APPSTORE_API_BASE_URL?: string;
+  
   /** Optional: Cloudflare Rate Limiting binding (configure in wrangler.jsonc) */
   RATE_LIMITER?: any;
 }
@@ -65,39 +107,13 @@ async function parseJSON<T = any>(req: Request): Promise<T> {
   }
 }
 
-async function getBalance(env: Env, deviceId: string): Promise<number> {
-  const raw = await env.CREDITS.get(`device:${deviceId}`);
-  return raw ? parseInt(raw, 10) || 0 : 0;
-}
-
-async function setBalance(env: Env, deviceId: string, v: number) {
-  await env.CREDITS.put(`device:${deviceId}`, String(Math.max(0, v)));
-}
-
-async function addCredits(env: Env, deviceId: string, delta: number) {
-  const current = await getBalance(env, deviceId);
-  await setBalance(env, deviceId, current + delta);
+function ledgerFor(env: Env, deviceId: string): DurableObjectStub<DeviceLedger> {
+  return env.LEDGER.get(env.LEDGER.idFromName(deviceId));
 }
 
 async function ensureInitialGrant(env: Env, deviceId: string) {
-  const markerKey = `device:${deviceId}:initial_granted`;
-  const already = await env.CREDITS.get(markerKey);
-  if (already) return;
-
-  const current = await getBalance(env, deviceId);
-  if (current > 0) {
-    await env.CREDITS.put(markerKey, String(Date.now()));
-    return;
-  }
-
   const grant = parseInt(env.INITIAL_GRANT || "3", 10) || 3;
-  if (grant <= 0) {
-    await env.CREDITS.put(markerKey, String(Date.now()));
-    return;
-  }
-
-  await addCredits(env, deviceId, grant);
-  await env.CREDITS.put(markerKey, String(Date.now()));
+  await ledgerFor(env, deviceId).ensureInitialGrant(deviceId, grant);
 }
 
 function json(status: number, data: any) {
@@ -165,7 +181,7 @@ async function requireValidJob(
   req: Request,
   env: Env,
   deviceId: string
-): Promise<{ jobId: string; hold: any }> {
+): Promise<{ jobId: string; hold: JobHold }> {
   const jobId = req.headers.get("X-Job-Id")?.trim();
   const jobToken = req.headers.get("X-Job-Token")?.trim();
   
@@ -179,9 +195,8 @@ async function requireValidJob(
     };
   }
   
-  const holdKey = `hold:${jobId}`;
-  const raw = await env.CREDITS.get(holdKey);
-  if (!raw) {
+  const hold = await ledgerFor(env, deviceId).getHold(deviceId, jobId);
+  if (!hold) {
     throw {
       isErrorResponse: true,
       response: new Response(
@@ -191,20 +206,17 @@ async function requireValidJob(
     };
   }
   
-  let hold: any;
-  try {
-    hold = JSON.parse(raw);
-  } catch {
+  // Verify state, device, token, expiry
+  if (hold.state === "expired") {
     throw {
       isErrorResponse: true,
       response: new Response(
-        JSON.stringify({ error: "invalid_job", message: "Corrupted job data" }),
-        { status: 500, headers: { "content-type": "application/json" } }
+        JSON.stringify({ error: "job_expired" }),
+        { status: 401, headers: { "content-type": "application/json" } }
       )
     };
   }
-  
-  // Verify state, device, token, expiry
+
   if (hold.state !== "pending") {
     throw {
       isErrorResponse: true,
@@ -249,332 +261,4432 @@ async function requireValidJob(
 }
 
 /* ================================
-   Receipt verification (legacy, < iOS 18)
+   Device ledger (Durable Object)
    ================================ */
 
-// Verify an App Store receipt with Apple.
-// If `useSandbox` is true, hits the sandbox endpoint; otherwise production.
-async function verifyReceiptWithApple(
-  receiptBase64: string,
-  useSandbox: boolean
-): Promise<any> {
-  const url = useSandbox
-    ? "https://sandbox.itunes.apple.com/verifyReceipt"
-    : "https://buy.itunes.apple.com/verifyReceipt";
+// One instance per device (idFromName(deviceId)). All balance/reserved/hold
+// mutations for a device run inside it, so concurrent requests are serialized
+// instead of racing on KV read-modify-write.
 
-  const res = await fetch(url, {
-    method: "POST",
-    headers: { "content-type": "application/json" },
-    body: JSON.stringify({
-      "receipt-data": receiptBase64,
-      // Add "password": <shared secret> for auto-renewable subscriptions if needed.
-      "exclude-old-transactions": true,
-    }),
-  });
+type HoldState = "pending" | "committed" | "cancelled" | "expired";
 
-  let data: any = null;
-  try {
-    data = await res.json();
-  } catch {
-    // leave null – handled by caller
+// Metered upstream usage of a job; also the shape of its budget
+type JobUsage = {
+  chatCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  ttsChars: number;
+  /** Seconds of audio transcribed (word timings, speech scoring) */
+  sttSeconds: number;
+};
+
+const EMPTY_USAGE: JobUsage = { chatCalls: 0, promptTokens: 0, completionTokens: 0, ttsChars: 0, sttSeconds: 0 };
+
+// Credits charged per unit of usage when a job is committed
+type PriceTable = {
+  chatCall: number;
+  promptTokensPer1k: number;
+  completionTokensPer1k: number;
+  ttsCharsPer1k: number;
+  sttSecondsPer1k: number;
+  /** Every committed job costs at least this much (may be a fraction of a credit) */
+  minimumCharge: number;
+};
+
+type ChargeLine = { item: keyof JobUsage; quantity: number; unitPrice: number; per: number; credits: number };
+
+type JobCharge = {
+  held: number;
+  /** What this job cost in credits: its subtotal, at least the minimum and at most the hold */
+  cost: number;
+  /** Whole credits taken from the balance */
+  charged: number;
+  refunded: number;
+  usage: JobUsage;
+  lines: ChargeLine[];
+  subtotal: number;
+  /** Fraction of a credit owed after this job, charged with the device's next job */
+  carry: number;
+};
+
+type JobHold = {
+  jobId: string;
+  deviceId: string;
+  amount: number;
+  state: HoldState;
+  token: string;
+  createdAt: number;
+  expiresAt: number;
+  budget?: JobUsage;
+  usage?: JobUsage;
+  /** `once` keys of charges already metered (see DeviceLedger.meterUsage) */
+  metered?: string[];
+  charge?: JobCharge;
+  committedAt?: number;
+  cancelledAt?: number;
+  expiredAt?: number;
+};
+
+type LedgerMeta = {
+  deviceId: string;
+  balance: number;
+  reserved: number;
+  initialGranted: boolean;
+  /** Sequence number of the last ledger entry */
+  seq: number;
+  /** UUID the app passes as StoreKit `appAccountToken`; purchases must carry it to be redeemed here */
+  appAccountToken?: string;
+  /** Fraction of a credit used by committed jobs but not yet taken from the balance (0 ≤ carry < 1) */
+  carry?: number;
+};
+
+type LedgerEntryType =
+  | "opening_balance"
+  | "initial_grant"
+  | "review_grant"
+  | "promo_code"
+  | "iap_purchase"
+  | "iap_refund"
+  | "spend"
+  | "job_commit"
+  | "job_cancel"
+  | "job_expired"
+  | "admin_adjustment";
+
+// What an entry refers to: an App Store transaction, a job, a grant code, or a support adjustment's reason
+type LedgerRef = { txId?: string; jobId?: string; code?: string; reason?: string };
+
+// Immutable record of one balance change. `balance` is the balance after applying `amount`.
+type LedgerEntry = LedgerRef & {
+  seq: number;
+  type: LedgerEntryType;
+  amount: number;
+  balance: number;
+  ts: number;
+};
+
+type SweepResult = {
+  deviceId: string;
+  released: { jobId: string; amount: number }[];
+  reservedBefore: number;
+  reservedAfter: number;
+  pendingHolds: number;
+};
+
+type LedgerResult<T = {}> =
+  | ({ ok: true } & T)
+  | { ok: false; error: string; status: number; balance: number; reserved: number };
+
+const LEDGER_HISTORY_MAX_PAGE = 100;
+
+// Zero-padded so storage.list() returns entries in sequence order
+function ledgerEntryKey(seq: number): string {
+  return `entry:${String(seq).padStart(12, "0")}`;
+}
+
+// Mix of usage a held credit allows; a hold's budget scales with its amount. Sized for a lesson with
+// a reasoning model (completion tokens include reasoning) in two languages, then scaled down by
+// jobBudget() so that using the whole budget never costs more than the credits held.
+const JOB_BUDGET_PER_CREDIT: JobUsage = {
+  chatCalls: 100,
+  promptTokens: 400_000,
+  completionTokens: 150_000,
+  ttsChars: 80_000,
+  sttSeconds: 3600,
+};
+
+function jobBudget(amount: number, table: PriceTable): JobUsage {
+  const perCredit = priceJob(JOB_BUDGET_PER_CREDIT, Infinity, { ...table, minimumCharge: 0 }).subtotal;
+  const scale = perCredit > 1 ? 1 / perCredit : 1;
+  const priced: Record<keyof JobUsage, number> = {
+    chatCalls: table.chatCall,
+    promptTokens: table.promptTokensPer1k,
+    completionTokens: table.completionTokensPer1k,
+    ttsChars: table.ttsCharsPer1k,
+    sttSeconds: table.sttSecondsPer1k,
+  };
+  const budget = { ...EMPTY_USAGE };
+  for (const k of Object.keys(budget) as (keyof JobUsage)[]) {
+    // Free dimensions are not scaled: they add nothing to the cost
+    budget[k] = Math.floor(JOB_BUDGET_PER_CREDIT[k] * amount * (priced[k] > 0 ? scale : 1));
   }
-  return data;
+  return budget;
 }
 
-/* ================================
-   JWS helpers (StoreKit 2 signed tx)
-   ================================ */
+// Roughly one credit for a lesson that uses a whole per-credit budget of tokens, or of TTS
+const DEFAULT_PRICE_TABLE: PriceTable = {
+  chatCall: 0,
+  promptTokensPer1k: 0.0005,
+  completionTokensPer1k: 0.004,
+  ttsCharsPer1k: 0.0075,
+  sttSecondsPer1k: 0.05,
+  minimumCharge: 0.1,
+};
 
-function base64urlEncode(buf: Uint8Array): string {
-  let s = btoa(String.fromCharCode(...buf));
-  return s.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+function priceTable(env: Env): PriceTable {
+  if (!env.PRICE_TABLE) return DEFAULT_PRICE_TABLE;
+  try {
+    return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(env.PRICE_TABLE) };
+  } catch {
+    console.error("[pricing] PRICE_TABLE is not valid JSON; using defaults");
+    return DEFAULT_PRICE_TABLE;
+  }
 }
 
-function base64urlFromString(s: string): string {
-  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+// Settle a job: price its usage in fractions of a credit, capped at the held amount. Whole credits are
+// charged now; the remaining fraction (plus the device's earlier `carry`) carries to its next job.
+function priceJob(usage: JobUsage, held: number, table: PriceTable, carry = 0): JobCharge {
+  const round4 = (x: number) => Math.round(x * 1e4) / 1e4;
+  const line = (item: keyof JobUsage, unitPrice: number, per: number): ChargeLine => ({
+    item,
+    quantity: usage[item],
+    unitPrice,
+    per,
+    credits: round4((usage[item] / per) * unitPrice),
+  });
+  const lines = [
+    line("chatCalls", table.chatCall, 1),
+    line("promptTokens", table.promptTokensPer1k, 1000),
+    line("completionTokens", table.completionTokensPer1k, 1000),
+    line("ttsChars", table.ttsCharsPer1k, 1000),
+    line("sttSeconds", table.sttSecondsPer1k, 1000),
+  ];
+
+  const subtotal = round4(lines.reduce((sum, l) => sum + l.credits, 0));
+  const cost = Math.min(held, Math.max(table.minimumCharge, subtotal));
+  const owed = round4(carry + cost);
+  const charged = Math.min(held, Math.floor(owed));
+  return { held, cost, charged, refunded: held - charged, usage, lines, subtotal, carry: round4(owed - charged) };
 }
 
-function stringFromBase64url(b64url: string): string {
-  const pad = "=".repeat((4 - (b64url.length % 4)) % 4);
-  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/") + pad;
-  const bytes = Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
-  return new TextDecoder().decode(bytes);
+// Finished (committed/cancelled/expired) holds are kept this long so retried commit/cancel calls stay idempotent
+const FINISHED_HOLD_RETENTION_MS = 3600 * 1000;
+// Most credits one hold (or one series part) may reserve
+const JOB_AMOUNT_MAX = 1000;
+
+// Optional positive integer from a request body: `fallback` when absent, an error when not an integer 1..max
+function positiveIntField(body: any, field: string, fallback: number, max: number, errors: FieldError[]): number {
+  const v = body?.[field] ?? fallback;
+  if (Number.isInteger(v) && v >= 1 && v <= max) return v;
+  errors.push({ field, message: `must be an integer 1-${max}` });
+  return fallback;
 }
 
-// Accepts either raw 64-byte (r||s) or ASN.1 DER-encoded ECDSA signatures.
-// Always returns JOSE base64url of raw (r||s).
-function toJoseP256Signature(sig: Uint8Array): string {
-  // Case A: already raw (r||s), 64 bytes
-  if (sig.length === 64) {
-    return base64urlEncode(sig);
+export class DeviceLedger extends DurableObject<Env> {
+  private meta: LedgerMeta | null = null;
+
+  // Load state; the first time a device is seen, import its legacy KV balance.
+  // Reservations are not imported: KV holds in flight at cut-over simply expire.
+  private async load(deviceId: string): Promise<LedgerMeta> {
+    if (this.meta) return this.meta;
+    return this.ctx.blockConcurrencyWhile(async () => {
+      if (this.meta) return this.meta;
+      const stored = await this.ctx.storage.get<LedgerMeta>("meta");
+      if (stored && stored.seq !== undefined) {
+        this.meta = stored;
+        return stored;
+      }
+      if (stored) {
+        // Device predates the entry log: open it with the current balance
+        this.meta = { ...stored, seq: 0 };
+        await this.saveMeta(this.entry("opening_balance", stored.balance, {}));
+        return this.meta;
+      }
+
+      const rawBalance = await this.env.CREDITS.get(`device:${deviceId}`);
+      const initialMarker = await this.env.CREDITS.get(`device:${deviceId}:initial_granted`);
+      const meta: LedgerMeta = {
+        deviceId,
+        balance: rawBalance ? Math.max(0, parseInt(rawBalance, 10) || 0) : 0,
+        reserved: 0,
+        initialGranted: !!initialMarker,
+        seq: 0,
+      };
+      this.meta = meta;
+      await this.saveMeta(meta.balance > 0 ? this.entry("opening_balance", meta.balance, {}) : {});
+      console.log(`[ledger] imported device=${deviceId} balance=${meta.balance} initialGranted=${meta.initialGranted}`);
+      return meta;
+    });
   }
 
-  // Case B: DER-encoded SEQUENCE { r INTEGER, s INTEGER }
-  let offset = 0;
-  if (sig[offset++] !== 0x30) throw new Error("Invalid DER: no sequence");
+  private async saveMeta(extra: Record<string, unknown> = {}) {
+    await this.ctx.storage.put({ meta: this.meta, ...extra });
+  }
 
-  // Read (possibly long-form) length
-  let seqLen = sig[offset++];
-  if (seqLen & 0x80) {
-    const n = seqLen & 0x7f;
-    let v = 0;
-    for (let i = 0; i < n; i++) v = (v << 8) | sig[offset++];
-    seqLen = v;
+  // Build the next ledger entry for a change already applied to meta.balance.
+  // Returned as { key: entry } so it is written in the same put as the state it describes.
+  private entry(type: LedgerEntryType, amount: number, ref: LedgerRef): Record<string, LedgerEntry> {
+    const m = this.meta!;
+    m.seq += 1;
+    const e: LedgerEntry = { seq: m.seq, type, amount, balance: m.balance, ts: Date.now(), ...ref };
+    return { [ledgerEntryKey(m.seq)]: e };
   }
 
-  const expectInt = (label: "r" | "s") => {
-    if (sig[offset++] !== 0x02) throw new Error(`Invalid DER: expecting integer for ${label}`);
-    let len = sig[offset++];
-    if (len & 0x80) {
-      const n = len & 0x7f;
-      let v = 0;
-      for (let i = 0; i < n; i++) v = (v << 8) | sig[offset++];
-      len = v;
-    }
-    const bytes = sig.slice(offset, offset + len);
-    offset += len;
-    return bytes;
-  };
+  private fail(error: string, status: number): LedgerResult<never> {
+    return { ok: false, error, status, balance: this.meta?.balance ?? 0, reserved: this.meta?.reserved ?? 0 };
+  }
 
-  const rDer = expectInt("r");
-  const sDer = expectInt("s");
+  async getState(deviceId: string) {
+    const m = await this.load(deviceId);
+    return { balance: m.balance, reserved: m.reserved, available: Math.max(0, m.balance - m.reserved) };
+  }
 
-  const leftPad32 = (x: Uint8Array) => {
-    // strip leading 0x00 if present then left-pad to 32 bytes
-    let i = 0;
-    while (i < x.length - 1 && x[i] === 0) i++;
-    let y = x.slice(i);
-    if (y.length > 32) throw new Error("Invalid ECDSA component length");
-    if (y.length < 32) y = new Uint8Array([...new Uint8Array(32 - y.length), ...y]);
-    return y;
-  };
+  // Issued once per device and stable afterwards
+  async appAccountToken(deviceId: string): Promise<string> {
+    const m = await this.load(deviceId);
+    if (!m.appAccountToken) {
+      m.appAccountToken = crypto.randomUUID();
+      await this.saveMeta();
+    }
+    return m.appAccountToken;
+  }
 
-  const r = leftPad32(rDer);
-  const s = leftPad32(sDer);
+  async ensureInitialGrant(deviceId: string, grant: number): Promise<number> {
+    const m = await this.load(deviceId);
+    if (m.initialGranted) return 0;
 
-  const raw = new Uint8Array(64);
-  raw.set(r, 0);
-  raw.set(s, 32);
-  return base64urlEncode(raw);
-}
+    m.initialGranted = true;
+    const granted = m.balance > 0 || grant <= 0 ? 0 : grant;
+    m.balance += granted;
+    await this.saveMeta(granted > 0 ? this.entry("initial_grant", granted, {}) : {});
+    return granted;
+  }
 
+  // Debits stop at zero; `applied` is the change actually made, read in the same step as the balance
+  async addCredits(deviceId: string, delta: number, type: LedgerEntryType, ref: LedgerRef = {}): Promise<{ balance: number; applied: number }> {
+    const m = await this.load(deviceId);
+    const before = m.balance;
+    m.balance = Math.max(0, m.balance + delta);
+    const applied = m.balance - before;
+    await this.saveMeta(this.entry(type, applied, ref));
+    return { balance: m.balance, applied };
+  }
 
-/* ================================
-   App Store Server API auth (ES256 JWT)
-   ================================ */
+  // addCredits at most once per `once` key (e.g. a refunded transaction). The marker is written with
+  // the balance change, so concurrent or retried calls cannot apply it twice.
+  async addCreditsOnce(
+    deviceId: string,
+    once: string,
+    delta: number,
+    type: LedgerEntryType,
+    ref: LedgerRef = {}
+  ): Promise<{ already: boolean; balance: number; applied: number }> {
+    const m = await this.load(deviceId);
+    const markerKey = `once:${once}`;
+    if (await this.ctx.storage.get(markerKey)) return { already: true, balance: m.balance, applied: 0 };
+
+    const before = m.balance;
+    m.balance = Math.max(0, m.balance + delta);
+    const applied = m.balance - before;
+    await this.saveMeta({ [markerKey]: { ts: Date.now(), applied }, ...this.entry(type, applied, ref) });
+    return { already: false, balance: m.balance, applied };
+  }
 
-// Import EC private key (PKCS8 from .p8 PEM) into WebCrypto
-async function importAppleECPrivateKey(pem: string): Promise<CryptoKey> {
-  // Be tolerant of secrets that include literal "\n"
-  const normalized = pem.replace(/\\n/g, "\n").trim();
-  const clean = normalized
-    .replace(/-----BEGIN [^-]+-----/g, "")
-    .replace(/-----END [^-]+-----/g, "")
-    .replace(/\s+/g, "")
-    .trim();
+  // Legacy direct debit (ignores reservations, like the original KV implementation)
+  async spend(deviceId: string, amount: number): Promise<LedgerResult<{ balance: number }>> {
+    const m = await this.load(deviceId);
+    if (!Number.isInteger(amount) || amount < 1) return this.fail("invalid_amount", 400);
+    if (m.balance < amount) return this.fail("insufficient_credits", 402);
+    m.balance -= amount;
+    await this.saveMeta(this.entry("spend", -amount, {}));
+    return { ok: true, balance: m.balance };
+  }
 
-  const binary = Uint8Array.from(atob(clean), (c) => c.charCodeAt(0));
-  return crypto.subtle.importKey(
-    "pkcs8",
-    binary.buffer,
-    { name: "ECDSA", namedCurve: "P-256" },
-    false,
-    ["sign"]
-  );
-}
+  async getHold(deviceId: string, jobId: string): Promise<JobHold | null> {
+    await this.load(deviceId);
+    return (await this.ctx.storage.get<JobHold>(`hold:${jobId}`)) ?? null;
+  }
 
-async function signES256JWT(env: Env): Promise<string> {
-  const header = {
-    alg: "ES256",
-    kid: env.APPSTORE_KEY_ID,
-    typ: "JWT",
-  };
-  const now = Math.floor(Date.now() / 1000);
-  const payload = {
-    iss: env.APPSTORE_ISSUER_ID,
-    iat: now,
-    exp: now + 180,           // short-lived
-    aud: "appstoreconnect-v1",
-    bid: APP_BUNDLE_ID,       // <- REQUIRED for StoreKit Server API
-  };
+  async startJob(
+    deviceId: string,
+    opts: { jobId: string; amount: number; ttlSeconds: number; token: string }
+  ): Promise<LedgerResult<{ hold: JobHold; balance: number; reserved: number }>> {
+    const res = await this.startJobs(deviceId, [opts]);
+    return res.ok ? { ok: true, hold: res.holds[0], balance: res.balance, reserved: res.reserved } : res;
+  }
 
-  const encHeader = base64urlFromString(JSON.stringify(header));
-  const encPayload = base64urlFromString(JSON.stringify(payload));
-  const signingInput = `${encHeader}.${encPayload}`;
+  // Place several holds in one transaction (a series reserves all of its parts up front): all or none
+  async startJobs(
+    deviceId: string,
+    jobs: { jobId: string; amount: number; ttlSeconds: number; token: string }[]
+  ): Promise<LedgerResult<{ holds: JobHold[]; balance: number; reserved: number }>> {
+    const m = await this.load(deviceId);
+    await this.pruneFinishedHolds();
+
+    // Never store a hold the balance checks cannot reason about (NaN passes every comparison)
+    const valid = (opts: { amount: number; ttlSeconds: number }) =>
+      Number.isInteger(opts.amount) && opts.amount >= 1 && Number.isFinite(opts.ttlSeconds) && opts.ttlSeconds > 0;
+    if (!jobs.every(valid)) return this.fail("invalid_hold", 400);
+
+    let total = 0;
+    for (const opts of jobs) {
+      if (await this.ctx.storage.get<JobHold>(`hold:${opts.jobId}`)) return this.fail("job_exists", 409);
+      total += opts.amount;
+    }
+    if (m.balance - m.reserved < total) return this.fail("insufficient_credits", 402);
+
+    const now = Date.now();
+    const holds = jobs.map(
+      (opts): JobHold => ({
+        jobId: opts.jobId,
+        deviceId,
+        amount: opts.amount,
+        state: "pending",
+        token: opts.token,
+        createdAt: now,
+        expiresAt: now + opts.ttlSeconds * 1000,
+        budget: jobBudget(opts.amount, priceTable(this.env)),
+        usage: { ...EMPTY_USAGE },
+      })
+    );
+    m.reserved += total;
+    await this.saveMeta(Object.fromEntries(holds.map((h) => [`hold:${h.jobId}`, h])));
+    // Let the sweeper find this device if the client never commits/cancels
+    await this.env.CREDITS.put(`pending_device:${deviceId}`, String(now));
+    return { ok: true, holds, balance: m.balance, reserved: m.reserved };
+  }
 
-  const key = await importAppleECPrivateKey(env.APPSTORE_PRIVATE_KEY);
-  const sigDER = new Uint8Array(
-    await crypto.subtle.sign(
-      { name: "ECDSA", hash: "SHA-256" },
-      key,
-      new TextEncoder().encode(signingInput)
-    )
-  );
+  // Add `charge` to a pending job's usage. With `enforce`, the charge is refused when it would
+  // exceed the budget or when a charged dimension is already used up (a zero charge still checks).
+  // With `once`, a charge already metered under that key is not added again (retried steps).
+  async meterUsage(
+    deviceId: string,
+    jobId: string,
+    charge: Partial<JobUsage>,
+    opts: { enforce: boolean; once?: string }
+  ): Promise<LedgerResult<{ usage: JobUsage; budget: JobUsage }> | { ok: false; error: "job_budget_exceeded"; status: 403; exceeded: keyof JobUsage; usage: JobUsage; budget: JobUsage }> {
+    await this.load(deviceId);
+    const holdKey = `hold:${jobId}`;
+    const hold = await this.ctx.storage.get<JobHold>(holdKey);
+    if (!hold || hold.state !== "pending") return this.fail("job_not_pending", 409);
+
+    const budget = { ...jobBudget(hold.amount, priceTable(this.env)), ...hold.budget };
+    const usage = { ...EMPTY_USAGE, ...hold.usage };
+    if (opts.once && hold.metered?.includes(opts.once)) return { ok: true, usage, budget };
+    const keys = Object.keys(charge) as (keyof JobUsage)[];
+    if (opts.enforce) {
+      for (const k of keys) {
+        const delta = charge[k] ?? 0;
+        // A budget that is not a number (a hold stored before amounts were validated) allows nothing
+        if (!Number.isFinite(budget[k]) || usage[k] >= budget[k] || usage[k] + delta > budget[k]) {
+          return { ok: false, error: "job_budget_exceeded", status: 403, exceeded: k, usage, budget };
+        }
+      }
+    }
+    for (const k of keys) usage[k] += charge[k] ?? 0;
 
-  const sigJOSE = toJoseP256Signature(sigDER);
-  return `${signingInput}.${sigJOSE}`;
-}
+    hold.usage = usage;
+    if (opts.once) hold.metered = [...(hold.metered ?? []), opts.once];
+    await this.ctx.storage.put(holdKey, hold);
+    return { ok: true, usage, budget };
+  }
 
+  // Charge the job for its metered usage (at most the held amount) and release the rest
+  async commitJob(
+    deviceId: string,
+    jobId: string,
+    prices: PriceTable
+  ): Promise<LedgerResult<{ already?: boolean; balance: number; charge?: JobCharge }>> {
+    const m = await this.load(deviceId);
+    const holdKey = `hold:${jobId}`;
+    const hold = await this.ctx.storage.get<JobHold>(holdKey);
+    if (!hold || hold.state !== "pending") return { ok: true, already: true, balance: m.balance };
+
+    const held = Math.max(1, Math.floor(hold.amount || 1));
+    const charge = priceJob({ ...EMPTY_USAGE, ...hold.usage }, held, prices, m.carry ?? 0);
+    const before = m.balance;
+    m.balance = Math.max(0, m.balance - charge.charged);
+    m.carry = charge.carry;
+    m.reserved = Math.max(0, m.reserved - held);
+    hold.state = "committed";
+    hold.committedAt = Date.now();
+    hold.charge = charge;
+    await this.saveMeta({ [holdKey]: hold, ...this.entry("job_commit", m.balance - before, { jobId }) });
+    return { ok: true, balance: m.balance, charge };
+  }
 
-// Call App Store Server API: Get Transaction Info (try prod, then sandbox) with detailed diagnostics.
-async function getTransactionInfoFromApple(env: Env, transactionId: string): Promise<
-  | { ok: true; json: any; environment: "PROD" | "SANDBOX" }
-  | { ok: false; status: number; body: string; environment: "PROD" | "SANDBOX" }
-> {
-  async function call(
-    host: "api.storekit.itunes.apple.com" | "api.storekit-sandbox.itunes.apple.com",
-    environment: "PROD" | "SANDBOX"
-  ) {
-    const jwt = await signES256JWT(env);
-    const url = `https://${host}/inApps/v1/transactions/${encodeURIComponent(transactionId)}`;
+  async cancelJob(deviceId: string, jobId: string): Promise<LedgerResult<{ already?: boolean; balance: number; amount?: number }>> {
+    const m = await this.load(deviceId);
+    const holdKey = `hold:${jobId}`;
+    const hold = await this.ctx.storage.get<JobHold>(holdKey);
+    if (!hold || hold.state !== "pending") return { ok: true, already: true, balance: m.balance };
+
+    const amount = Math.max(1, Math.floor(hold.amount || 1));
+    m.reserved = Math.max(0, m.reserved - amount);
+    hold.state = "cancelled";
+    hold.cancelledAt = Date.now();
+    await this.saveMeta({ [holdKey]: hold, ...this.entry("job_cancel", 0, { jobId }) });
+    return { ok: true, balance: m.balance, amount };
+  }
 
-    const r = await fetch(url, {
-      headers: {
-        Authorization: `Bearer ${jwt}`,
-        Accept: "application/json",
-      },
+  // Newest first. `before` is an exclusive sequence cursor from the previous page.
+  async history(deviceId: string, opts: { limit: number; before?: number }) {
+    await this.load(deviceId);
+    const limit = Math.min(Math.max(1, opts.limit), LEDGER_HISTORY_MAX_PAGE);
+    const page = await this.ctx.storage.list<LedgerEntry>({
+      prefix: "entry:",
+      reverse: true,
+      limit,
+      end: opts.before !== undefined ? ledgerEntryKey(opts.before) : undefined,
     });
+    const entries = [...page.values()];
+    const last = entries[entries.length - 1];
+    return { entries, nextBefore: entries.length === limit && last && last.seq > 1 ? last.seq : null };
+  }
 
-    const text = await r.text();
-    if (r.ok) {
-      try {
-        const json = JSON.parse(text);
-        if (json?.signedTransactionInfo) {
-          return { ok: true as const, json, environment };
-        }
-        // OK but missing payload – treat as failure with details
-        return { ok: false as const, status: r.status, body: text || "<empty>", environment };
-      } catch {
-        return { ok: false as const, status: r.status, body: text || "<non-json>", environment };
+  // Everything support needs in one call: state, holds (without their tokens) and credited transactions
+  async inspect(deviceId: string) {
+    const m = await this.load(deviceId);
+    const holds = [...(await this.ctx.storage.list<JobHold>({ prefix: "hold:" })).values()]
+      .map(({ token, ...hold }) => hold)
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const txIds = new Set<string>();
+    for (const e of (await this.ctx.storage.list<LedgerEntry>({ prefix: "entry:" })).values()) {
+      if (e.type === "iap_purchase" && e.txId) txIds.add(e.txId);
+    }
+    return {
+      balance: m.balance,
+      reserved: m.reserved,
+      available: Math.max(0, m.balance - m.reserved),
+      initialGranted: m.initialGranted,
+      appAccountToken: m.appAccountToken ?? null,
+      holds,
+      txIds: [...txIds],
+    };
+  }
+
+  // Recompute the balance by replaying every entry (support/consistency checks)
+  async replayBalance(deviceId: string): Promise<{ balance: number; derived: number; entries: number }> {
+    const m = await this.load(deviceId);
+    let derived = 0;
+    let count = 0;
+    for (const e of (await this.ctx.storage.list<LedgerEntry>({ prefix: "entry:" })).values()) {
+      derived += e.amount;
+      count++;
+    }
+    return { balance: m.balance, derived, entries: count };
+  }
+
+  // Release pending holds past their expiry and rebuild `reserved` from the holds still live.
+  // Called by the scheduled sweeper; `now` is passed in so the sweep uses the cron's clock.
+  // Other calls wait while it runs, so the sweeper index is cleared only when no hold is pending and a
+  // startJobs() arriving meanwhile adds it back afterwards.
+  async sweep(deviceId: string, now: number): Promise<SweepResult> {
+    const m = await this.load(deviceId);
+    return this.ctx.blockConcurrencyWhile(async () => {
+      const holds = await this.ctx.storage.list<JobHold>({ prefix: "hold:" });
+
+      const released: { jobId: string; amount: number }[] = [];
+      const updates: Record<string, JobHold | LedgerEntry> = {};
+      let liveReserved = 0;
+      let pending = 0;
+      for (const [key, hold] of holds) {
+        if (hold.state !== "pending") continue;
+        if (hold.expiresAt && hold.expiresAt < now) {
+          hold.state = "expired";
+          hold.expiredAt = now;
+          updates[key] = hold;
+          Object.assign(updates, this.entry("job_expired", 0, { jobId: hold.jobId }));
+          released.push({ jobId: hold.jobId, amount: hold.amount });
+        } else {
+          liveReserved += hold.amount;
+          pending++;
+        }
       }
-    } else {
-      return { ok: false as const, status: r.status, body: text || "<empty>", environment };
+
+      const reservedBefore = m.reserved;
+      m.reserved = liveReserved;
+      if (released.length || reservedBefore !== liveReserved) {
+        await this.saveMeta(updates);
+      }
+      await this.pruneFinishedHolds();
+      if (pending === 0) await this.env.CREDITS.delete(`pending_device:${deviceId}`);
+      return { deviceId, released, reservedBefore, reservedAfter: liveReserved, pendingHolds: pending };
+    });
+  }
+
+  private async pruneFinishedHolds() {
+    const cutoff = Date.now() - FINISHED_HOLD_RETENTION_MS;
+    const holds = await this.ctx.storage.list<JobHold>({ prefix: "hold:" });
+    const stale: string[] = [];
+    for (const [key, hold] of holds) {
+      const finishedAt = hold.committedAt ?? hold.cancelledAt ?? hold.expiredAt;
+      if (hold.state !== "pending" && finishedAt && finishedAt < cutoff) stale.push(key);
     }
+    if (stale.length) await this.ctx.storage.delete(stale);
+  }
+}
+
+// Charge a call against the job's usage budget; throws a 403 job_budget_exceeded response when over
+async function requireJobBudget(env: Env, deviceId: string, jobId: string, charge: Partial<JobUsage>) {
+  const res = await ledgerFor(env, deviceId).meterUsage(deviceId, jobId, charge, { enforce: true });
+  if (!res.ok) {
+    const body =
+      "exceeded" in res
+        ? {
+            error: res.error,
+            message: `Job budget exhausted (${res.exceeded}); start a new job`,
+            exceeded: res.exceeded,
+            usage: res.usage,
+            budget: res.budget,
+          }
+        : { error: res.error };
+    console.log(`[budget] device=${deviceId} jobId=${jobId} error=${res.error}${"exceeded" in res ? ` exceeded=${res.exceeded}` : ""}`);
+    throw { isErrorResponse: true, response: json(res.status, body) };
   }
+  return res;
+}
 
-  // 1) Try production first
-  const prod = await call("api.storekit.itunes.apple.com", "PROD");
-  if (prod.ok) return prod;
+// Record a provider's reported usage against the job (no enforcement: the tokens are already spent)
+async function recordChatUsage(env: Env, deviceId: string, jobId: string, usage: ChatUsage | null) {
+  const promptTokens = usage?.promptTokens ?? 0;
+  const completionTokens = usage?.completionTokens ?? 0;
+  if (promptTokens === 0 && completionTokens === 0) return;
+  await ledgerFor(env, deviceId).meterUsage(deviceId, jobId, { promptTokens, completionTokens }, { enforce: false });
+}
 
-  // 2) Fallback to sandbox
-  const sbx = await call("api.storekit-sandbox.itunes.apple.com", "SANDBOX");
-  if (sbx.ok) return sbx;
+// Forward a chat completions SSE stream byte-for-byte while watching for the final `usage` chunk.
+// `onUsage` runs once the upstream stream has ended (with null if no usage was reported).
+function meterChatStream(upstream: ReadableStream<Uint8Array>, onUsage: (usage: any) => void): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let pending = "";
+  let usage: any = null;
+
+  const scan = (text: string) => {
+    pending += text;
+    const lines = pending.split("\n");
+    pending = lines.pop() ?? "";
+    for (const line of lines) {
+      const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!data || data === "[DONE]" || !data.includes('"usage"')) continue;
+      try {
+        const chunk = JSON.parse(data);
+        if (chunk?.usage) usage = chunk.usage;
+      } catch {}
+    }
+  };
 
-  // Return the "better" error (prefer sandbox when both failed)
-  return sbx.status ? sbx : prod;
+  return upstream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        scan(decoder.decode(chunk, { stream: true }));
+      },
+      flush() {
+        scan(decoder.decode() + "\n");
+        onUsage(usage);
+      },
+    })
+  );
 }
 
 /* ================================
-   Types for JWS payloads (client + Apple)
+   Prompt templates (server-owned, versioned)
    ================================ */
 
-// Minimal fields we care about from the client-sent JWS payload
-type ClientSignedTransactionPayload = {
-  transactionId: string;
-  productId: string;
-  bundleId: string;
-  environment?: "Sandbox" | "Production";
-  // plus more...
+// Prompt wording lives here, not in the app, so it can change without an App Store release.
+// A template is addressed as `name@version` (or just `name` for the latest version); shipped
+// app builds pin a version, so wording changes go out as a new version. Text uses `{{var}}`,
+// `{{#var}}…{{/var}}` sections that render only when the variable is set, and
+// `{{#var=value}}…{{/var}}` sections that render only for that value.
+
+type PromptVariable =
+  | { type: "string"; maxLength: number; optional?: boolean }
+  | { type: "integer"; min: number; max: number; optional?: boolean }
+  | { type: "enum"; values: string[]; optional?: boolean }
+  | { type: "list"; maxItems: number; maxLength: number; optional?: boolean };
+
+type PromptText = { system: string; user: string };
+
+type PromptTemplate = PromptText & {
+  name: string;
+  version: number;
+  model: string;
+  /** JSON-schema response whose properties are all strings */
+  response?: { name: string; fields: string[] };
+  variables: Record<string, PromptVariable>;
+  /** Per-language replacements, keyed by the value of `languageVariable` */
+  languageVariable?: string;
+  languages?: Record<string, Partial<PromptText>>;
+  /** A/B variants by weight; each device lands in one variant per template, stably */
+  variants?: Record<string, { weight: number } & Partial<PromptText>>;
 };
 
-// From Apple response, we parse `signedTransactionInfo` JWS payload to confirm product/bundle.
-type AppleSignedTransactionPayload = {
-  transactionId: string;
+type RenderedPrompt = PromptText & {
+  templateId: string;
+  variant: string;
+  model: string;
+  response?: { name: string; fields: string[] };
+};
+
+const CEFR_LEVELS = ["A1", "A2", "B1", "B2", "C1", "C2"];
+const CJK_LANGUAGES = [
+  "Chinese (Simplified)",
+  "Chinese (Traditional)",
+  "Chinese (Mandarin - Simplified)",
+  "Chinese (Mandarin - Traditional)",
+  "Chinese (Cantonese - Traditional)",
+  "Japanese",
+  "Korean",
+];
+
+const STORY_SYSTEM = `You are a world-class writer. Follow the user's prompt meticulously.
+Write in {{targetLanguage}}. Aim for ~{{wordCount}} words total.
+Write at CEFR level {{level}}.
+Use normal sentence punctuation (. ! ? …).
+Do NOT insert newlines inside a paragraph; separate paragraphs with exactly one blank line.{{#totalParts}}
+This text is part {{partNumber}} of a {{totalParts}}-part series; the parts read as one continuous story.{{/totalParts}}{{#outline}}
+Series outline:
+{{outline}}{{/outline}}{{#outlineItem}}
+Write part {{partNumber}}: {{outlineItem}}{{/outlineItem}}{{#previousSummary}}
+Story so far: {{previousSummary}}
+Continue from there without retelling it.{{/previousSummary}}{{#levelFeedback}}
+{{levelFeedback}}{{/levelFeedback}}`;
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: "lesson.refine",
+    version: 1,
+    model: "gpt-5-nano",
+    response: { name: "refined_prompt", fields: ["refined_prompt"] },
+    variables: {
+      targetLanguage: { type: "string", maxLength: 60 },
+      wordCount: { type: "integer", min: 50, max: 2000 },
+      level: { type: "enum", values: CEFR_LEVELS },
+      material: { type: "string", maxLength: 4000 },
+    },
+    system: "Refine prompts faithfully; elevate without drifting from user intent.",
+    user: `You are a prompt refiner. Transform the user's instruction, input text, or theme into a clear, actionable writing brief.
+Keep the user's original intent, named entities, facts, references, and requested form intact.
+Language: {{targetLanguage}}
+Target length: ≈ {{wordCount}} words (flexible ±15%)
+CEFR level: {{level}}
+Define a simple paragraph structure with sentences which are not too long.
+
+User instruction or material:
+{{material}}`,
+    variants: {
+      control: { weight: 3 },
+      concise: {
+        weight: 1,
+        user: `Turn the material below into a short writing brief (at most 5 bullet points) for a {{level}} text of ≈ {{wordCount}} words in {{targetLanguage}}. Keep its intent, names and facts.
+
+Material:
+{{material}}`,
+      },
+    },
+  },
+  {
+    name: "lesson.story",
+    version: 1,
+    model: "gpt-5-nano",
+    response: { name: "generated_text", fields: ["title", "body"] },
+    variables: {
+      targetLanguage: { type: "string", maxLength: 60 },
+      wordCount: { type: "integer", min: 50, max: 2000 },
+      level: { type: "enum", values: CEFR_LEVELS },
+      brief: { type: "string", maxLength: 8000 },
+      partNumber: { type: "integer", min: 1, max: 20, optional: true },
+      totalParts: { type: "integer", min: 1, max: 20, optional: true },
+      outline: { type: "list", maxItems: 20, maxLength: 300, optional: true },
+      outlineItem: { type: "string", maxLength: 300, optional: true },
+      previousSummary: { type: "string", maxLength: 2000, optional: true },
+      levelFeedback: { type: "string", maxLength: 1000, optional: true },
+    },
+    system: STORY_SYSTEM,
+    user: "{{brief}}",
+    languageVariable: "targetLanguage",
+    languages: Object.fromEntries(
+      CJK_LANGUAGES.map((l) => [
+        l,
+        { system: `${STORY_SYSTEM}\nKeep sentences short and avoid rare characters, archaic forms and literary style.` },
+      ])
+    ),
+  },
+  {
+    name: "lesson.translate",
+    version: 1,
+    model: "gpt-5-nano",
+    response: { name: "translation", fields: ["translation"] },
+    variables: {
+      targetLanguage: { type: "string", maxLength: 60 },
+      style: { type: "enum", values: ["literal", "idiomatic"] },
+      text: { type: "string", maxLength: 8000 },
+    },
+    system: `{{#style=literal}}Translate as literally as possible.{{/style}}{{#style=idiomatic}}Translate naturally and idiomatically.{{/style}}
+KEEP EXACT sentence alignment (same number and order as the source).
+NEVER insert newlines; separate sentences with a single space only.`,
+    user: `Target language: {{targetLanguage}}
+Translate the text below.
+
+{{text}}`,
+  },
+  {
+    name: "series.summary",
+    version: 1,
+    model: "gpt-5-nano",
+    response: { name: "summary", fields: ["summary"] },
+    variables: {
+      previousSummary: { type: "string", maxLength: 2000, optional: true },
+      text: { type: "string", maxLength: 20000 },
+    },
+    system: "You keep running summaries of serialized stories.",
+    user: `Summarize the story so far in 2-3 sentences for continuation context. Focus on:
+- Key events and developments
+- Character states and relationships
+- Unresolved elements or questions
+- Emotional tone
+{{#previousSummary}}
+Earlier parts:
+{{previousSummary}}
+{{/previousSummary}}
+Latest part:
+{{text}}`,
+  },
+  {
+    name: "series.outline",
+    version: 1,
+    model: "gpt-5-nano",
+    response: { name: "series_outline", fields: ["outline"] },
+    variables: {
+      totalParts: { type: "integer", min: 2, max: 20 },
+      targetLanguage: { type: "string", maxLength: 60 },
+      level: { type: "enum", values: CEFR_LEVELS },
+      theme: { type: "string", maxLength: 4000 },
+    },
+    system: "You plan serialized stories for language learners.",
+    user: `Plan a {{totalParts}}-part series in {{targetLanguage}} at CEFR level {{level}}.
+Return exactly {{totalParts}} lines, one short idea per part, in order.
+
+Series theme:
+{{theme}}`,
+  },
+];
+
+// `name@version`, or `name` for the highest version
+function findPromptTemplate(id: string): PromptTemplate | null {
+  const [name, version] = id.split("@");
+  const matches = PROMPT_TEMPLATES.filter((t) => t.name === name);
+  if (version !== undefined) return matches.find((t) => String(t.version) === version) ?? null;
+  return matches.sort((a, b) => b.version - a.version)[0] ?? null;
+}
+
+function checkPromptVariables(t: PromptTemplate, vars: Record<string, unknown>): FieldError[] {
+  const errors: FieldError[] = [];
+  for (const name of Object.keys(vars)) {
+    if (!t.variables[name]) errors.push({ field: `variables.${name}`, message: "unknown variable" });
+  }
+  for (const [name, spec] of Object.entries(t.variables)) {
+    const field = `variables.${name}`;
+    const v = vars[name];
+    if (v === undefined || v === null || v === "") {
+      if (!spec.optional) errors.push({ field, message: "required" });
+      continue;
+    }
+    switch (spec.type) {
+      case "string":
+        if (typeof v !== "string") errors.push({ field, message: "must be a string" });
+        else if (v.length > spec.maxLength) errors.push({ field, message: `at most ${spec.maxLength} characters` });
+        break;
+      case "integer":
+        if (!Number.isInteger(v) || (v as number) < spec.min || (v as number) > spec.max) {
+          errors.push({ field, message: `must be an integer from ${spec.min} to ${spec.max}` });
+        }
+        break;
+      case "enum":
+        if (!spec.values.includes(v as string)) errors.push({ field, message: `must be one of: ${spec.values.join(", ")}` });
+        break;
+      case "list":
+        if (!Array.isArray(v) || v.length > spec.maxItems || v.some((x) => typeof x !== "string" || x.length > spec.maxLength)) {
+          errors.push({ field, message: `must be a list of at most ${spec.maxItems} strings of ${spec.maxLength} characters` });
+        }
+        break;
+    }
+  }
+  return errors;
+}
+
+// Resolve sections, then placeholders; substituted values are never re-scanned
+function fillPromptText(text: string, vars: Record<string, unknown>): string {
+  const open = (name: string, value?: string) => {
+    const v = vars[name];
+    if (value !== undefined) return String(v) === value;
+    return v !== undefined && v !== null && v !== "" && !(Array.isArray(v) && !v.length);
+  };
+  const sections = text.replace(/\{\{#(\w+)(?:=([^}]*))?\}\}([^]*?)\{\{\/\1\}\}/g, (_, name, value, inner) =>
+    open(name, value) ? inner : ""
+  );
+  return sections.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+    const v = vars[name];
+    if (Array.isArray(v)) return v.map((x, i) => `${i + 1}. ${x}`).join("\n");
+    return v === undefined || v === null ? "" : String(v);
+  });
+}
+
+// Weighted pick, stable per device and template
+async function promptVariant(t: PromptTemplate, deviceId: string): Promise<string> {
+  const variants = Object.entries(t.variants ?? {}).filter(([, v]) => v.weight > 0);
+  if (!variants.length) return "control";
+  const total = variants.reduce((sum, [, v]) => sum + v.weight, 0);
+  const hash = await sha256Hex(new TextEncoder().encode(`${deviceId}:${t.name}@${t.version}`));
+  let point = (parseInt(hash.slice(0, 8), 16) / 0x1_0000_0000) * total;
+  for (const [name, v] of variants) {
+    point -= v.weight;
+    if (point < 0) return name;
+  }
+  return variants[variants.length - 1][0];
+}
+
+async function renderPrompt(
+  id: string,
+  vars: Record<string, unknown>,
+  deviceId: string
+): Promise<{ ok: true; prompt: RenderedPrompt } | { ok: false; errors: FieldError[] }> {
+  const t = findPromptTemplate(id);
+  if (!t) return { ok: false, errors: [{ field: "template", message: `unknown template: ${id}` }] };
+  const errors = checkPromptVariables(t, vars);
+  if (errors.length) return { ok: false, errors };
+
+  // Variant wording first; a language override (needed for correctness) wins over an experiment
+  const variant = await promptVariant(t, deviceId);
+  const language = t.languageVariable ? t.languages?.[String(vars[t.languageVariable])] : undefined;
+  const text: PromptText = {
+    system: language?.system ?? t.variants?.[variant]?.system ?? t.system,
+    user: language?.user ?? t.variants?.[variant]?.user ?? t.user,
+  };
+  return {
+    ok: true,
+    prompt: {
+      templateId: `${t.name}@${t.version}`,
+      variant,
+      model: t.model,
+      response: t.response,
+      system: fillPromptText(text.system, vars),
+      user: fillPromptText(text.user, vars),
+    },
+  };
+}
+
+// Same as renderPrompt, for server-built variables: a failure is a bug, not a client error
+async function renderServerPrompt(id: string, vars: Record<string, unknown>, deviceId: string): Promise<RenderedPrompt> {
+  const res = await renderPrompt(id, vars, deviceId);
+  if (!res.ok) throw new Error(`prompt ${id}: ${res.errors.map((e) => `${e.field} ${e.message}`).join("; ")}`);
+  return res.prompt;
+}
+
+// Chat-completions body for a rendered prompt
+function promptChatBody(p: RenderedPrompt): Record<string, unknown> {
+  return {
+    model: p.model,
+    messages: [
+      { role: "system", content: p.system },
+      { role: "user", content: p.user },
+    ],
+    ...(p.response
+      ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: {
+              name: p.response.name,
+              strict: true,
+              schema: {
+                type: "object",
+                properties: Object.fromEntries(p.response.fields.map((f) => [f, { type: "string" }])),
+                required: p.response.fields,
+                additionalProperties: false,
+              },
+            },
+          },
+        }
+      : {}),
+  };
+}
+
+/* ================================
+   Chat request contract (/chat)
+   ================================ */
+
+// /chat is open to anyone holding a job token, so only a known-cheap shape is forwarded:
+// allowlisted models, capped output and prompt sizes, no tools. Known-harmless extras are
+// stripped; anything that changes cost or capability is rejected with field-level errors.
+
+type FieldError = { field: string; message: string };
+
+// What shipped app versions ask for (gpt-4o: iterative series generation)
+const DEFAULT_CHAT_MODELS = ["gpt-5-nano", "gpt-5-mini", "gpt-4o-mini", "gpt-4o"];
+const CHAT_MAX_COMPLETION_TOKENS = 32_000;
+const CHAT_MAX_MESSAGES = 50;
+const CHAT_MAX_MESSAGE_CHARS = 20_000;
+const CHAT_MAX_TOTAL_CHARS = 100_000;
+const CHAT_MAX_RESPONSE_FORMAT_CHARS = 20_000;
+const CHAT_ROLES = ["system", "developer", "user", "assistant"];
+
+// Forwarded as-is once valid
+const CHAT_ALLOWED_FIELDS = [
+  "model",
+  "messages",
+  "max_tokens",
+  "max_completion_tokens",
+  "n",
+  "temperature",
+  "top_p",
+  "presence_penalty",
+  "frequency_penalty",
+  "stop",
+  "seed",
+  "response_format",
+  "reasoning_effort",
+  "verbosity",
+  "stream",
+  "stream_options",
+];
+
+// Rejected: tool use, other modalities, and priority processing
+const CHAT_FORBIDDEN_FIELDS = [
+  "tools",
+  "tool_choice",
+  "functions",
+  "function_call",
+  "parallel_tool_calls",
+  "audio",
+  "modalities",
+  "web_search_options",
+  "service_tier",
+];
+
+function chatModelAllowlist(env: Env): string[] {
+  const configured = (env.CHAT_MODEL_ALLOWLIST || "")
+    .split(",")
+    .map((m) => m.trim())
+    .filter(Boolean);
+  return configured.length ? configured : DEFAULT_CHAT_MODELS;
+}
+
+// Characters of text in a message's content (a string, or an array of text parts)
+function chatContentLength(content: unknown, field: string, errors: FieldError[]): number {
+  if (typeof content === "string") return content.length;
+  if (!Array.isArray(content)) {
+    errors.push({ field, message: "must be a string or an array of text parts" });
+    return 0;
+  }
+  let chars = 0;
+  content.forEach((part, i) => {
+    if (part?.type !== "text" || typeof part?.text !== "string") {
+      errors.push({ field: `${field}[${i}]`, message: "only text parts are allowed" });
+      return;
+    }
+    chars += part.text.length;
+  });
+  return chars;
+}
+
+// Returns the body to forward (unknown and harmless extras removed) or the list of problems
+function validateChatBody(
+  env: Env,
+  body: any
+): { ok: true; body: Record<string, unknown>; stripped: string[] } | { ok: false; errors: FieldError[] } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: [{ field: "", message: "body must be a JSON object" }] };
+  }
+  const errors: FieldError[] = [];
+
+  const models = chatModelAllowlist(env);
+  if (typeof body.model !== "string" || !models.includes(body.model)) {
+    errors.push({ field: "model", message: `must be one of: ${models.join(", ")}` });
+  }
+
+  if (!Array.isArray(body.messages)) {
+    errors.push({ field: "messages", message: "must be an array" });
+  } else {
+    if (body.messages.length > CHAT_MAX_MESSAGES) {
+      errors.push({ field: "messages", message: `at most ${CHAT_MAX_MESSAGES} messages` });
+    }
+    let total = 0;
+    body.messages.forEach((m: any, i: number) => {
+      if (!CHAT_ROLES.includes(m?.role)) {
+        errors.push({ field: `messages[${i}].role`, message: `must be one of: ${CHAT_ROLES.join(", ")}` });
+      }
+      const chars = chatContentLength(m?.content, `messages[${i}].content`, errors);
+      if (chars > CHAT_MAX_MESSAGE_CHARS) {
+        errors.push({ field: `messages[${i}].content`, message: `at most ${CHAT_MAX_MESSAGE_CHARS} characters` });
+      }
+      total += chars;
+    });
+    if (total > CHAT_MAX_TOTAL_CHARS) {
+      errors.push({ field: "messages", message: `at most ${CHAT_MAX_TOTAL_CHARS} characters in total` });
+    }
+  }
+
+  for (const field of ["max_tokens", "max_completion_tokens"]) {
+    const v = body[field];
+    if (v !== undefined && (!Number.isInteger(v) || v < 1 || v > CHAT_MAX_COMPLETION_TOKENS)) {
+      errors.push({ field, message: `must be an integer from 1 to ${CHAT_MAX_COMPLETION_TOKENS}` });
+    }
+  }
+  if (body.n !== undefined && body.n !== 1) {
+    errors.push({ field: "n", message: "only 1 completion per request" });
+  }
+  if (body.stream !== undefined && typeof body.stream !== "boolean") {
+    errors.push({ field: "stream", message: "must be a boolean" });
+  }
+  if (body.response_format !== undefined) {
+    const type = body.response_format?.type;
+    if (!["text", "json_object", "json_schema"].includes(type)) {
+      errors.push({ field: "response_format.type", message: "must be text, json_object or json_schema" });
+    } else if (JSON.stringify(body.response_format).length > CHAT_MAX_RESPONSE_FORMAT_CHARS) {
+      errors.push({ field: "response_format", message: `at most ${CHAT_MAX_RESPONSE_FORMAT_CHARS} characters` });
+    }
+  }
+
+  for (const field of CHAT_FORBIDDEN_FIELDS) {
+    if (body[field] !== undefined) errors.push({ field, message: "not allowed" });
+  }
+  if (errors.length) return { ok: false, errors };
+
+  const forwarded: Record<string, unknown> = {};
+  const stripped: string[] = [];
+  for (const [k, v] of Object.entries(body)) {
+    if (CHAT_ALLOWED_FIELDS.includes(k)) forwarded[k] = v;
+    else stripped.push(k);
+  }
+  return { ok: true, body: forwarded, stripped };
+}
+
+/* ================================
+   Moderation (/chat input and output)
+   ================================ */
+
+// /chat requests are classified before they are forwarded and completions before they are
+// returned. Each category's policy decides: "block" refuses the content and releases the job's
+// hold (nothing is charged), "flag" lets it through and records it for review, "allow" ignores it.
+// When the classifier is unreachable the content passes and the event is recorded as a flag.
+
+type ModerationAction = "block" | "flag" | "allow";
+type ModerationStage = "input" | "output";
+type ModerationVerdict = { action: ModerationAction; categories: string[] };
+
+// The app is used by learners of all ages, so anything sexual or encouraging harm is blocked;
+// story-grade violence and rough language are let through but flagged. "*" covers new categories.
+const DEFAULT_MODERATION_POLICY: Record<string, ModerationAction> = {
+  sexual: "block",
+  "sexual/minors": "block",
+  hate: "block",
+  "hate/threatening": "block",
+  "harassment/threatening": "block",
+  "self-harm/intent": "block",
+  "self-harm/instructions": "block",
+  "illicit/violent": "block",
+  harassment: "flag",
+  "self-harm": "flag",
+  illicit: "flag",
+  violence: "flag",
+  "violence/graphic": "flag",
+  "*": "flag",
+};
+
+const MODERATION_ACTIONS: ModerationAction[] = ["block", "flag", "allow"];
+const MODERATION_FLAG_TTL = 30 * 86400;
+const MODERATION_EXCERPT_CHARS = 300;
+
+function moderationPolicy(env: Env): Record<string, ModerationAction> {
+  if (!env.MODERATION_POLICY) return DEFAULT_MODERATION_POLICY;
+  try {
+    const overrides: Record<string, unknown> = JSON.parse(env.MODERATION_POLICY);
+    const valid = Object.entries(overrides).filter((e): e is [string, ModerationAction] => MODERATION_ACTIONS.includes(e[1] as ModerationAction));
+    return { ...DEFAULT_MODERATION_POLICY, ...Object.fromEntries(valid) };
+  } catch {
+    console.error("[moderation] MODERATION_POLICY is not valid JSON; using defaults");
+    return DEFAULT_MODERATION_POLICY;
+  }
+}
+
+// Nothing to classify for when every category is allowed
+function moderationEnabled(policy: Record<string, ModerationAction>): boolean {
+  return Object.values(policy).some((a) => a !== "allow");
+}
+
+// Text of all messages (string content or text parts)
+function chatMessageText(body: any): string {
+  const messages: any[] = Array.isArray(body?.messages) ? body.messages : [];
+  return messages
+    .flatMap((m) => (typeof m?.content === "string" ? [m.content] : Array.isArray(m?.content) ? m.content.map((p: any) => p?.text ?? "") : []))
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function moderate(env: Env, policy: Record<string, ModerationAction>, text: string): Promise<ModerationVerdict> {
+  if (!text.trim()) return { action: "allow", categories: [] };
+  let flagged: string[];
+  try {
+    const { provider, model } = modelRoute(env, "moderation");
+    const r = await provider.moderate({ model, input: text });
+    if (!r.ok) throw new Error(`upstream_${r.status}`);
+    const categories = (await r.json<any>())?.results?.[0]?.categories ?? {};
+    flagged = Object.keys(categories).filter((c) => categories[c] === true);
+  } catch (err: any) {
+    console.error("[moderation] classifier unavailable", String(err?.message || err));
+    return { action: "flag", categories: ["moderation_unavailable"] };
+  }
+
+  const actionOf = (c: string) => policy[c] ?? policy["*"] ?? "allow";
+  for (const action of ["block", "flag"] as const) {
+    const categories = flagged.filter((c) => actionOf(c) === action);
+    if (categories.length) return { action, categories };
+  }
+  return { action: "allow", categories: [] };
+}
+
+async function recordModerationFlag(
+  env: Env,
+  entry: { deviceId: string; jobId: string; stage: ModerationStage; action: ModerationAction; categories: string[]; text: string }
+) {
+  const at = Date.now();
+  const { text, ...rest } = entry;
+  await env.CREDITS.put(
+    `moderation_flag:${at}:${entry.deviceId}:${crypto.randomUUID()}`,
+    JSON.stringify({ ...rest, at, excerpt: text.slice(0, MODERATION_EXCERPT_CHARS) }),
+    { expirationTtl: MODERATION_FLAG_TTL }
+  );
+}
+
+// Apply a verdict: blocked → release the hold and return the refusal; flagged → record it
+async function enforceModeration(
+  env: Env,
+  ctx: ExecutionContext,
+  deviceId: string,
+  jobId: string,
+  stage: ModerationStage,
+  verdict: ModerationVerdict,
+  text: string
+): Promise<Response | null> {
+  if (verdict.action === "allow") return null;
+  console.log(`[moderation] ${verdict.action} stage=${stage} device=${deviceId} jobId=${jobId} categories=${verdict.categories.join(",")}`);
+  ctx.waitUntil(recordModerationFlag(env, { deviceId, jobId, stage, ...verdict, text }));
+  if (verdict.action === "flag") return null;
+
+  await ledgerFor(env, deviceId).cancelJob(deviceId, jobId);
+  return json(422, { error: "content_blocked", stage, categories: verdict.categories, holdReleased: true });
+}
+
+// Streamed completions are moderated as they arrive: SSE lines are held back until about this much
+// content has come in, and released once the classifier has passed it
+const MODERATION_STREAM_WINDOW_CHARS = 400;
+
+// Forward a chat completions SSE body window by window. `check` classifies each window's content
+// and returns a refusal to stop. A refusal of the first window resolves to that refusal, since
+// nothing has been sent yet; a later one ends the stream with the refusal as a final data event.
+async function moderateChatStream(
+  upstream: ReadableStream<Uint8Array>,
+  check: (content: string) => Promise<Response | null>,
+  onUsage: (usage: any) => void
+): Promise<Response | ReadableStream<Uint8Array>> {
+  const reader = upstream.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let pending = "";
+  let held = "";
+  let content = "";
+  let usage: any = null;
+  let done = false;
+
+  const scan = (line: string) => {
+    held += line;
+    const data = line.startsWith("data:") ? line.slice(5).trim() : "";
+    if (!data || data === "[DONE]") return;
+    try {
+      const chunk = JSON.parse(data);
+      content += chunk?.choices?.[0]?.delta?.content ?? "";
+      if (chunk?.usage) usage = chunk.usage;
+    } catch {}
+  };
+
+  // Read complete lines until a window of content is held or the upstream ends
+  const nextWindow = async (): Promise<{ text: string; refusal: Response | null }> => {
+    while (!done && content.length < MODERATION_STREAM_WINDOW_CHARS) {
+      const { value, done: end } = await reader.read();
+      if (end) {
+        done = true;
+        pending += decoder.decode();
+        if (pending) scan(pending);
+        break;
+      }
+      const lines = (pending + decoder.decode(value, { stream: true })).split("\n");
+      pending = lines.pop() ?? "";
+      for (const line of lines) scan(line + "\n");
+    }
+    const window = { text: held, content };
+    held = "";
+    content = "";
+    return { text: window.text, refusal: await check(window.content) };
+  };
+
+  const first = await nextWindow();
+  if (first.refusal) {
+    await reader.cancel();
+    return first.refusal;
+  }
+  let queued = first.text;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (queued) {
+        controller.enqueue(encoder.encode(queued));
+        queued = "";
+        return;
+      }
+      if (done) {
+        onUsage(usage);
+        controller.close();
+        return;
+      }
+      const { text, refusal } = await nextWindow();
+      if (refusal) {
+        await reader.cancel();
+        controller.enqueue(encoder.encode(`data: ${await refusal.text()}\n\n`));
+        controller.close();
+        return;
+      }
+      queued = text;
+    },
+  });
+}
+
+/* ================================
+   Model providers (chat + speech)
+   ================================ */
+
+// Every provider speaks the OpenAI wire format: chat completions (JSON, or SSE when
+// `body.stream`), audio/speech bytes and verbose_json transcriptions. Routes pick a provider and model through
+// MODEL_ROUTES, so a self-hosted model or the fake can stand in without touching handlers.
+
+type ChatUsage = { promptTokens: number; completionTokens: number };
+
+type TranscriptionOptions = { model: string; filename: string; language?: string };
+
+// A verbose_json transcription with word timestamps (seconds)
+type Transcription = { text: string; duration: number; words: { word: string; start: number; end: number }[] };
+
+interface ModelProvider {
+  readonly name: string;
+  chatCompletion(body: any): Promise<Response>;
+  synthesizeSpeech(body: TtsUpstreamBody): Promise<Response>;
+  /** audio/transcriptions as verbose_json with word timestamps; see parseTranscription */
+  transcribeAudio(audio: Blob, opts: TranscriptionOptions): Promise<Response>;
+  /** moderations: `{ results: [{ flagged, categories }] }` */
+  moderate(body: { model?: string; input: string }): Promise<Response>;
+  /** Normalize a response's `usage` object (null when the provider reported none) */
+  reportUsage(usage: any): ChatUsage | null;
+}
+
+type ModelProviderName = "openai" | "compatible" | "fake";
+type ModelRoute = "chat" | "tts" | "lessons.chat" | "lessons.tts" | "stt" | "moderation";
+type ModelRouteConfig = { provider: ModelProviderName; model?: string };
+
+// Chat routes have no model: the request body (or its prompt template) names it unless MODEL_ROUTES overrides it
+const DEFAULT_MODEL_ROUTES: Record<ModelRoute, ModelRouteConfig> = {
+  chat: { provider: "openai" },
+  tts: { provider: "openai", model: "gpt-4o-mini-tts" },
+  "lessons.chat": { provider: "openai" },
+  "lessons.tts": { provider: "openai", model: "gpt-4o-mini-tts" },
+  // whisper-1: the gpt-4o transcribe models do not return word timestamps
+  stt: { provider: "openai", model: "whisper-1" },
+  moderation: { provider: "openai", model: "omni-moderation-latest" },
+};
+
+function openAIUsage(usage: any): ChatUsage | null {
+  if (!usage) return null;
+  return {
+    promptTokens: Math.max(0, Math.floor(usage.prompt_tokens ?? 0)),
+    completionTokens: Math.max(0, Math.floor(usage.completion_tokens ?? 0)),
+  };
+}
+
+function parseTranscription(data: any): Transcription {
+  const words = Array.isArray(data?.words) ? data.words : [];
+  return {
+    text: String(data?.text ?? ""),
+    duration: Math.max(0, Number(data?.duration) || 0),
+    words: words
+      .filter((w: any) => typeof w?.word === "string" && Number.isFinite(w?.start) && Number.isFinite(w?.end))
+      .map((w: any) => ({ word: w.word, start: w.start, end: w.end })),
+  };
+}
+
+// OpenAI itself, or any server exposing the same /chat/completions, /audio/speech, /audio/transcriptions and /moderations endpoints
+function openAICompatibleProvider(name: string, baseUrl: string, apiKey?: string): ModelProvider {
+  const post = (path: string, body: unknown) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { authorization: `Bearer ${apiKey}` } : {}),
+        "content-type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+  return {
+    name,
+    chatCompletion: (body) => post("/chat/completions", body),
+    synthesizeSpeech: (body) => post("/audio/speech", body),
+    transcribeAudio(audio, opts) {
+      const form = new FormData();
+      form.append("file", new File([audio], opts.filename));
+      form.append("model", opts.model);
+      form.append("response_format", "verbose_json");
+      form.append("timestamp_granularities[]", "word");
+      // The API takes ISO-639-1 codes; the app names languages ("Portuguese"), so those are left to detection
+      if (opts.language && /^[a-z]{2}$/.test(opts.language)) form.append("language", opts.language);
+      return fetch(`${baseUrl}/audio/transcriptions`, {
+        method: "POST",
+        headers: apiKey ? { authorization: `Bearer ${apiKey}` } : {},
+        body: form,
+      });
+    },
+    moderate: (body) => post("/moderations", body),
+    reportUsage: openAIUsage,
+  };
+}
+
+// Deterministic stand-in for local development and tests: no network, same input → same output.
+// JSON-schema requests get every property filled; usage is ~4 characters per token.
+function fakeProvider(): ModelProvider {
+  return {
+    name: "fake",
+    async chatCompletion(body) {
+      const messages: any[] = Array.isArray(body?.messages) ? body.messages : [];
+      const prompt = messages.map((m) => String(m?.content ?? "")).join("\n");
+      const last = String(messages[messages.length - 1]?.content ?? "").slice(0, 200);
+      const properties = body?.response_format?.json_schema?.schema?.properties;
+      const content = properties
+        ? JSON.stringify(Object.fromEntries(Object.keys(properties).map((k) => [k, `fake ${k}: ${last}`])))
+        : `fake reply: ${last}`;
+      const usage = { prompt_tokens: Math.ceil(prompt.length / 4), completion_tokens: Math.ceil(content.length / 4) };
+      const model = body?.model || "fake-chat";
+
+      if (body?.stream) {
+        const chunks = [
+          { model, choices: [{ index: 0, delta: { role: "assistant", content } }] },
+          { model, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] },
+          ...(body?.stream_options?.include_usage ? [{ model, choices: [], usage }] : []),
+        ];
+        const sse = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+        return new Response(sse, { headers: { "content-type": "text/event-stream" } });
+      }
+      return json(200, {
+        id: "fake-completion",
+        object: "chat.completion",
+        model,
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+        usage,
+      });
+    },
+    async synthesizeSpeech(body) {
+      return new Response(`FAKE-AUDIO ${body.model} ${body.voice} ${body.input}`, { headers: { "content-type": "audio/mpeg" } });
+    },
+    // Reads back fake speech (any other upload is taken as UTF-8 text); 0.4 s per word
+    async transcribeAudio(audio) {
+      const raw = new TextDecoder().decode(await audio.arrayBuffer());
+      const text = raw.startsWith("FAKE-AUDIO ") ? raw.split(" ").slice(3).join(" ") : raw;
+      const words = text
+        .split(/\s+/)
+        .map((w) => w.replace(/^[\p{P}\p{S}]+|[\p{P}\p{S}]+$/gu, ""))
+        .filter(Boolean)
+        .map((word, i) => ({ word, start: i * 0.4, end: i * 0.4 + 0.4 }));
+      return json(200, { text: text.trim(), duration: words.length * 0.4, words });
+    },
+    // Flags the categories named by `FLAG:<category>` markers in the input
+    async moderate(body) {
+      const named = [...String(body?.input ?? "").matchAll(/FLAG:([a-z/-]+)/g)].map((m) => m[1]);
+      const categories = Object.fromEntries(named.map((c) => [c, true]));
+      return json(200, { id: "fake-moderation", results: [{ flagged: named.length > 0, categories }] });
+    },
+    reportUsage: openAIUsage,
+  };
+}
+
+function modelProvider(env: Env, name: ModelProviderName): ModelProvider {
+  switch (name) {
+    case "openai":
+      return openAICompatibleProvider("openai", "https://api.openai.com/v1", env.OPENAI_API_KEY);
+    case "compatible":
+      if (!env.COMPATIBLE_BASE_URL) throw new Error("MODEL_ROUTES selects the compatible provider but COMPATIBLE_BASE_URL is not set");
+      return openAICompatibleProvider("compatible", env.COMPATIBLE_BASE_URL.replace(/\/+$/, ""), env.COMPATIBLE_API_KEY);
+    case "fake":
+      return fakeProvider();
+    default:
+      throw new Error(`unknown model provider: ${name}`);
+  }
+}
+
+// Provider and model for a route: defaults, overridden per route by the MODEL_ROUTES JSON
+function modelRoute(env: Env, route: ModelRoute): { provider: ModelProvider; model?: string } {
+  let overrides: Partial<Record<ModelRoute, Partial<ModelRouteConfig>>> = {};
+  if (env.MODEL_ROUTES) {
+    try {
+      overrides = JSON.parse(env.MODEL_ROUTES);
+    } catch {
+      console.error("[models] MODEL_ROUTES is not valid JSON; using defaults");
+    }
+  }
+  const cfg = { ...DEFAULT_MODEL_ROUTES[route], ...overrides[route] };
+  return { provider: modelProvider(env, cfg.provider), model: cfg.model };
+}
+
+/* ================================
+   TTS audio cache (R2, content-addressed)
+   ================================ */
+
+// Cached audio is served for this long; the bucket's lifecycle rule on `tts-cache/` deletes it later
+const TTS_CACHE_TTL_MS = 30 * 86400 * 1000;
+const TTS_CACHE_STATS_TTL = 90 * 86400;
+
+type TtsUpstreamBody = {
+  model: string;
+  voice: string;
+  input: string;
+  format: string;
+  instructions: string;
+};
+
+// Same words → same audio: collapse whitespace and Unicode forms before hashing and synthesis
+function normalizeTtsText(text: string): string {
+  return String(text || "").normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+function buildTtsBody(
+  wanted: { text: string; language?: string; speed?: string; voice?: string; format?: string },
+  model: string
+): TtsUpstreamBody {
+  const instruction =
+    wanted.speed === "slow"
+      ? `Speak naturally and slowly${wanted.language ? ` in ${wanted.language}` : ""}.`
+      : `Speak naturally${wanted.language ? ` in ${wanted.language}` : ""}.`;
+
+  return {
+    model,
+    voice: wanted.voice || "shimmer",
+    input: normalizeTtsText(wanted.text),
+    format: wanted.format || "mp3",
+    instructions: instruction,
+  };
+}
+
+async function ttsCacheKey(provider: string, body: TtsUpstreamBody): Promise<string> {
+  // Fixed field order so equal bodies always hash the same
+  const canonical = JSON.stringify([provider, body.model, body.voice, body.format, body.instructions, body.input]);
+  return `tts-cache/${await sha256Hex(new TextEncoder().encode(canonical))}.${body.format}`;
+}
+
+async function getCachedTts(env: Env, key: string): Promise<ArrayBuffer | null> {
+  const obj = await env.AUDIO.get(key);
+  if (!obj) return null;
+  const expiresAt = Number(obj.customMetadata?.expiresAt || 0);
+  if (expiresAt && Date.now() > expiresAt) return null;
+  return obj.arrayBuffer();
+}
+
+async function putCachedTts(env: Env, key: string, audio: ArrayBuffer | string, contentType = "audio/mpeg") {
+  await env.AUDIO.put(key, audio, {
+    httpMetadata: { contentType },
+    customMetadata: { expiresAt: String(Date.now() + TTS_CACHE_TTL_MS) },
+  });
+}
+
+// Daily hit/miss counters (approximate: KV read-modify-write, like checkRateLimit)
+async function bumpTtsCacheStat(env: Env, outcome: "hits" | "misses", count = 1) {
+  if (count <= 0) return;
+  const key = `tts_cache_stats:${new Date().toISOString().slice(0, 10)}`;
+  const raw = await env.CREDITS.get(key);
+  const stats = raw ? JSON.parse(raw) : { hits: 0, misses: 0 };
+  stats[outcome] = (stats[outcome] || 0) + count;
+  await env.CREDITS.put(key, JSON.stringify(stats), { expirationTtl: TTS_CACHE_STATS_TTL });
+}
+
+/* ================================
+   Word timings (transcribe + align)
+   ================================ */
+
+// For karaoke highlighting and tap-to-seek: transcribe the synthesized audio with word timestamps
+// and map them back onto the words of the input text, so offsets always refer to what the app shows.
+// Words the transcriber missed or heard differently get the gap between their matched neighbours.
+// Timings are cached beside the audio they describe.
+
+type WordTiming = { text: string; start: number; end: number; charStart: number; charEnd: number };
+
+// TTS input limit of the default model; also bounds the alignment table
+const TTS_TIMINGS_MAX_TEXT = 4096;
+
+// Letters/digits with inner apostrophes; Han and kana have no spaces, so each character is a word
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}\p{N}]+)*/gu;
+
+function textWords(text: string): { text: string; index: number }[] {
+  return [...text.matchAll(WORD_PATTERN)].map((m) => ({ text: m[0], index: m.index! }));
+}
+
+function wordKey(word: string): string {
+  return word.normalize("NFKC").toLowerCase().replace(/’/g, "'");
+}
+
+// Transcribed words split like the input text; a word that splits shares its time span evenly
+function heardWords(heard: Transcription): { text: string; start: number; end: number }[] {
+  return heard.words.flatMap((w) => {
+    const parts = textWords(w.word);
+    const step = (w.end - w.start) / Math.max(1, parts.length);
+    return parts.map((p, i) => ({ text: p.text, start: w.start + step * i, end: w.start + step * (i + 1) }));
+  });
+}
+
+function round3(x: number): number {
+  return Math.round(x * 1000) / 1000;
+}
+
+function alignWordTimings(text: string, heard: Transcription): WordTiming[] {
+  const words = textWords(text);
+  const keys = words.map((w) => wordKey(w.text));
+  const spoken = heardWords(heard).map((w) => ({ ...w, key: wordKey(w.text) }));
+  const n = words.length;
+  const m = spoken.length;
+
+  // Longest common subsequence over normalized words
+  const lcs = new Uint16Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[at(i, j)] = keys[i] === spoken[j].key ? lcs[at(i + 1, j + 1)] + 1 : Math.max(lcs[at(i + 1, j)], lcs[at(i, j + 1)]);
+    }
+  }
+  const matched = new Array<{ start: number; end: number } | null>(n).fill(null);
+  for (let i = 0, j = 0; i < n && j < m; ) {
+    if (keys[i] === spoken[j].key) {
+      matched[i++] = spoken[j++];
+    } else if (lcs[at(i + 1, j)] >= lcs[at(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  // Unmatched runs share the gap between the neighbouring matches evenly
+  const total = Math.max(heard.duration, spoken[m - 1]?.end ?? 0);
+  const times = matched.slice();
+  for (let i = 0; i < n; ) {
+    if (times[i]) {
+      i++;
+      continue;
+    }
+    let k = i;
+    while (k < n && !times[k]) k++;
+    const from = i > 0 ? times[i - 1]!.end : 0;
+    const to = k < n ? times[k]!.start : total;
+    const step = Math.max(0, to - from) / (k - i);
+    for (let x = i; x < k; x++) times[x] = { start: from + step * (x - i), end: from + step * (x - i + 1) };
+    i = k;
+  }
+
+  return words.map((w, i) => ({
+    text: w.text,
+    start: round3(times[i]!.start),
+    end: round3(times[i]!.end),
+    charStart: w.index,
+    charEnd: w.index + w.text.length,
+  }));
+}
+
+// Timings for audio synthesized from `input`: cached, or transcribed (metered as sttSeconds) and aligned
+async function ttsWordTimings(
+  env: Env,
+  deviceId: string,
+  jobId: string,
+  cacheKey: string,
+  audio: ArrayBuffer,
+  input: string,
+  format: string
+): Promise<{ ok: true; words: WordTiming[]; duration: number } | { ok: false; error: string }> {
+  const timingsKey = `${cacheKey}.words.json`;
+  const cached = await getCachedTts(env, timingsKey);
+  if (cached) return { ok: true, ...JSON.parse(new TextDecoder().decode(cached)) };
+
+  // Nothing is known about the length before transcribing, so only refuse once the budget is used up
+  const ledger = ledgerFor(env, deviceId);
+  const budget = await ledger.meterUsage(deviceId, jobId, { sttSeconds: 0 }, { enforce: true });
+  if (!budget.ok) return { ok: false, error: budget.error };
+
+  const { provider, model } = modelRoute(env, "stt");
+  const r = await provider.transcribeAudio(new Blob([audio]), { model: model!, filename: `speech.${format}` });
+  if (!r.ok) return { ok: false, error: `upstream_${r.status}` };
+  const heard = parseTranscription(await r.json());
+  await ledger.meterUsage(deviceId, jobId, { sttSeconds: Math.ceil(heard.duration) }, { enforce: false });
+
+  const timings = { words: alignWordTimings(input, heard), duration: heard.duration };
+  await putCachedTts(env, timingsKey, JSON.stringify(timings), "application/json");
+  return { ok: true, ...timings };
+}
+
+/* ================================
+   Shadowing (/stt: transcribe + score)
+   ================================ */
+
+// The learner repeats a segment; their recording is transcribed and aligned word by word against
+// the segment text (minimum edit distance). Each reference word is a match, a substitution (said
+// something else) or a miss (left out); words said on top are listed as extras. Accents on Latin
+// letters are ignored, since transcribers often drop them.
+
+type ShadowResult = "match" | "substitution" | "miss";
+
+type ShadowWord = {
+  text: string;
+  charStart: number;
+  charEnd: number;
+  result: ShadowResult;
+  heard?: string;
+  start?: number;
+  end?: number;
+};
+
+const STT_MAX_BYTES = 10 * 1024 * 1024;
+const STT_MAX_REFERENCE = 2000;
+
+function shadowKey(word: string): string {
+  return wordKey(word).normalize("NFD").replace(/(\p{Script=Latin})\p{M}+/gu, "$1");
+}
+
+function scoreShadowing(reference: string, heard: Transcription) {
+  const ref = textWords(reference);
+  const said = heardWords(heard);
+  const a = ref.map((w) => shadowKey(w.text));
+  const b = said.map((w) => shadowKey(w.text));
+  const n = a.length;
+  const m = b.length;
+
+  // Word-level edit distance; ties prefer match/substitution so timings stay attached
+  const dist = new Uint16Array((n + 1) * (m + 1));
+  const at = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = 0; i <= n; i++) dist[at(i, m)] = n - i;
+  for (let j = 0; j <= m; j++) dist[at(n, j)] = m - j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      dist[at(i, j)] = Math.min(dist[at(i + 1, j + 1)] + (a[i] === b[j] ? 0 : 1), dist[at(i + 1, j)] + 1, dist[at(i, j + 1)] + 1);
+    }
+  }
+
+  const words: ShadowWord[] = [];
+  const extra: { text: string; start: number; end: number }[] = [];
+  const counts: Record<ShadowResult | "extra", number> = { match: 0, substitution: 0, miss: 0, extra: 0 };
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    const here = dist[at(i, j)];
+    if (i < n && j < m && here === dist[at(i + 1, j + 1)] + (a[i] === b[j] ? 0 : 1)) {
+      const result = a[i] === b[j] ? "match" : "substitution";
+      const w = said[j];
+      words.push({ ...shadowRef(ref[i]), result, heard: w.text, start: round3(w.start), end: round3(w.end) });
+      counts[result]++;
+      i++;
+      j++;
+    } else if (i < n && here === dist[at(i + 1, j)] + 1) {
+      words.push({ ...shadowRef(ref[i]), result: "miss" });
+      counts.miss++;
+      i++;
+    } else {
+      extra.push({ text: said[j].text, start: round3(said[j].start), end: round3(said[j].end) });
+      counts.extra++;
+      j++;
+    }
+  }
+
+  const similarity = Math.max(n, m) === 0 ? 1 : 1 - dist[at(0, 0)] / Math.max(n, m);
+  return { score: round3(similarity), counts, words, extra };
+}
+
+function shadowRef(w: { text: string; index: number }) {
+  return { text: w.text, charStart: w.index, charEnd: w.index + w.text.length };
+}
+
+/* ================================
+   Batch TTS (/tts/batch)
+   ================================ */
+
+// A whole lesson's audio in one request: one job check and one rate-limit hit instead of one per
+// segment. Segments are synthesized a few at a time (cache first, metered like /tts) and stored
+// under `tts-batch/<deviceId>/<jobId>/` for TTS_BATCH_TTL_MS; the response is a manifest with a
+// download URL or an error per segment, so the app can resend only the failed ones with the same job.
+
+type TtsBatchSegment = {
+  id: string;
+  text: string;
+  language?: string;
+  speed?: "regular" | "slow";
+  voice?: string;
+};
+
+type TtsBatchResult =
+  | { id: string; ok: true; file: string; url: string; bytes: number; cache: "hit" | "miss" }
+  | { id: string; ok: false; error: string; retryable: boolean };
+
+const TTS_BATCH_MAX_SEGMENTS = 200;
+// Same as a single /tts request: the speech endpoint's input limit
+const TTS_BATCH_MAX_TEXT = TTS_TIMINGS_MAX_TEXT;
+const TTS_BATCH_CONCURRENCY = 4;
+const TTS_BATCH_ID = /^[A-Za-z0-9_-]{1,64}$/;
+// Downloads stop after this long; the cron deletes expired objects (a bucket lifecycle rule may also)
+const TTS_BATCH_TTL_MS = 7 * 86400 * 1000;
+// Objects the cron looks at per run; it resumes from a saved cursor on the next run
+const TTS_BATCH_CLEANUP_PAGE = 1000;
+const TTS_BATCH_CLEANUP_PAGES = 5;
+
+// Job ids are chosen by the app, so the device is part of the key: one device cannot overwrite another's audio
+function ttsBatchObjectKey(deviceId: string, jobId: string, file: string): string {
+  return `tts-batch/${encodeURIComponent(deviceId)}/${jobId}/${file}`;
+}
+
+function parseTtsBatch(
+  body: any
+): { ok: true; segments: TtsBatchSegment[]; format: "mp3" | "wav" | "flac" } | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const format = body?.format ?? "mp3";
+  if (!["mp3", "wav", "flac"].includes(format)) errors.push({ field: "format", message: "must be mp3, wav or flac" });
+  if (!Array.isArray(body?.segments) || body.segments.length === 0) {
+    errors.push({ field: "segments", message: "must be a non-empty array" });
+    return { ok: false, errors };
+  }
+  if (body.segments.length > TTS_BATCH_MAX_SEGMENTS) {
+    errors.push({ field: "segments", message: `at most ${TTS_BATCH_MAX_SEGMENTS} segments per batch` });
+    return { ok: false, errors };
+  }
+
+  const seen = new Set<string>();
+  const segments: TtsBatchSegment[] = body.segments.map((raw: any, i: number) => {
+    const id = typeof raw?.id === "number" ? String(raw.id) : raw?.id;
+    if (typeof id !== "string" || !TTS_BATCH_ID.test(id)) {
+      errors.push({ field: `segments[${i}].id`, message: "must be 1-64 letters, digits, - or _" });
+    } else if (seen.has(id)) {
+      errors.push({ field: `segments[${i}].id`, message: `duplicate id ${id}` });
+    } else {
+      seen.add(id);
+    }
+    if (typeof raw?.text !== "string" || !raw.text.trim()) {
+      errors.push({ field: `segments[${i}].text`, message: "must be a non-empty string" });
+    } else if (raw.text.length > TTS_BATCH_MAX_TEXT) {
+      errors.push({ field: `segments[${i}].text`, message: `at most ${TTS_BATCH_MAX_TEXT} characters` });
+    }
+    if (raw?.speed !== undefined && raw.speed !== "regular" && raw.speed !== "slow") {
+      errors.push({ field: `segments[${i}].speed`, message: "must be regular or slow" });
+    }
+    return {
+      id,
+      text: raw?.text,
+      language: typeof raw?.language === "string" ? raw.language : undefined,
+      speed: raw?.speed,
+      voice: typeof raw?.voice === "string" ? raw.voice : undefined,
+    };
+  });
+  return errors.length ? { ok: false, errors } : { ok: true, segments, format };
+}
+
+// Run `fn` over `items` with at most `limit` calls in flight; results keep the input order
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+async function synthesizeBatchSegment(
+  env: Env,
+  deviceId: string,
+  jobId: string,
+  seg: TtsBatchSegment,
+  format: "mp3" | "wav" | "flac"
+): Promise<TtsBatchResult> {
+  try {
+    const { provider, model } = modelRoute(env, "tts");
+    const upstreamBody = buildTtsBody({ ...seg, format }, model!);
+    const cacheKey = await ttsCacheKey(provider.name, upstreamBody);
+    let audio = await getCachedTts(env, cacheKey);
+    const cache = audio ? "hit" : "miss";
+    if (!audio) {
+      // Refuse once the budget is used up, but charge only audio that was actually produced, so a
+      // failed segment costs nothing and its retry is charged once
+      const ledger = ledgerFor(env, deviceId);
+      const budget = await ledger.meterUsage(deviceId, jobId, { ttsChars: 0 }, { enforce: true });
+      if (!budget.ok) return { id: seg.id, ok: false, error: budget.error, retryable: false };
+
+      const r = await provider.synthesizeSpeech(upstreamBody);
+      if (!r.ok) return { id: seg.id, ok: false, error: `upstream_${r.status}`, retryable: r.status === 429 || r.status >= 500 };
+      audio = await r.arrayBuffer();
+      await ledger.meterUsage(deviceId, jobId, { ttsChars: upstreamBody.input.length }, { enforce: false });
+      await putCachedTts(env, cacheKey, audio);
+    }
+
+    const file = `${seg.id}.${format}`;
+    await env.AUDIO.put(ttsBatchObjectKey(deviceId, jobId, file), audio, {
+      httpMetadata: { contentType: format === "mp3" ? "audio/mpeg" : `audio/${format}` },
+      customMetadata: { deviceId, expiresAt: String(Date.now() + TTS_BATCH_TTL_MS) },
+    });
+    const url = `/tts/batch/${encodeURIComponent(jobId)}/files/${file}`;
+    return { id: seg.id, ok: true, file, url, bytes: audio.byteLength, cache };
+  } catch (err: any) {
+    console.error(`[tts-batch] segment=${seg.id} jobId=${jobId}`, err?.stack || String(err));
+    return { id: seg.id, ok: false, error: "synthesis_failed", retryable: true };
+  }
+}
+
+// Cron: delete batch audio past its expiry, a few pages per run, continuing where the last run stopped
+async function deleteExpiredBatchAudio(env: Env, now: number) {
+  let cursor = (await env.CREDITS.get("tts_batch_cleanup:cursor")) ?? undefined;
+  let scanned = 0;
+  let deleted = 0;
+  for (let i = 0; i < TTS_BATCH_CLEANUP_PAGES; i++) {
+    const page = await env.AUDIO.list({ prefix: "tts-batch/", cursor, limit: TTS_BATCH_CLEANUP_PAGE, include: ["customMetadata"] });
+    const expired = page.objects.filter((o) => Number(o.customMetadata?.expiresAt || 0) < now).map((o) => o.key);
+    if (expired.length) await env.AUDIO.delete(expired);
+    scanned += page.objects.length;
+    deleted += expired.length;
+    cursor = page.truncated ? page.cursor : undefined;
+    if (!cursor) break;
+  }
+  if (cursor) await env.CREDITS.put("tts_batch_cleanup:cursor", cursor);
+  else await env.CREDITS.delete("tts_batch_cleanup:cursor");
+  console.log(`[tts-batch] cleanup scanned=${scanned} deleted=${deleted}`);
+}
+
+/* ================================
+   Dialogue synthesis (/tts/dialogue)
+   ================================ */
+
+// A speaker-tagged script read by a cast of voices. Each speaker gets a distinct voice from the
+// language's pool (first unused voice from a per-name starting point), and the cast is pinned in
+// KV under the device + casting key (e.g. a seriesId) so a character keeps its voice across parts.
+// Lines are synthesized and stored exactly like /tts/batch segments.
+
+type DialogueLine = { speaker: string; text: string };
+
+// Ordered by how distinct they sound next to each other; every pool falls back to "*"
+const DEFAULT_VOICE_CASTING: Record<string, string[]> = {
+  "*": ["coral", "ash", "sage", "onyx", "nova", "echo", "ballad", "verse", "fable", "alloy", "shimmer"],
+};
+
+const DIALOGUE_MAX_LINES = 200;
+const DIALOGUE_MAX_SPEAKERS = 8;
+const VOICE_CAST_TTL = 180 * 86400;
+
+function voicePool(env: Env, language?: string): string[] {
+  let pools = DEFAULT_VOICE_CASTING;
+  if (env.VOICE_CASTING) {
+    try {
+      pools = { ...DEFAULT_VOICE_CASTING, ...JSON.parse(env.VOICE_CASTING) };
+    } catch {
+      console.error("[dialogue] VOICE_CASTING is not valid JSON; using defaults");
+    }
+  }
+  const match = language && Object.keys(pools).find((k) => k.toLowerCase() === language.toLowerCase());
+  const pool = match ? pools[match] : pools["*"];
+  return Array.isArray(pool) && pool.length ? pool : DEFAULT_VOICE_CASTING["*"];
+}
+
+// Keep voices already cast; give each new speaker the first free voice from its name's slot in the pool
+async function castVoices(pool: string[], speakers: string[], cast: Record<string, string>): Promise<Record<string, string>> {
+  const next = { ...cast };
+  for (const speaker of speakers) {
+    if (next[speaker]) continue;
+    const used = new Set(Object.values(next));
+    const hash = await sha256Hex(new TextEncoder().encode(speaker.toLowerCase()));
+    const start = parseInt(hash.slice(0, 8), 16) % pool.length;
+    const free = pool.map((_, i) => pool[(start + i) % pool.length]).find((v) => !used.has(v));
+    next[speaker] = free ?? pool[start]; // more speakers than voices: reuse
+  }
+  return next;
+}
+
+function parseDialogue(body: any):
+  | {
+      ok: true;
+      lines: DialogueLine[];
+      dialogueId: string;
+      language?: string;
+      speed?: "regular" | "slow";
+      castingKey?: string;
+      cast: Record<string, string>;
+      format: "mp3" | "wav" | "flac";
+    }
+  | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const format = body?.format ?? "mp3";
+  if (!["mp3", "wav", "flac"].includes(format)) errors.push({ field: "format", message: "must be mp3, wav or flac" });
+  const dialogueId = body?.dialogueId ?? "dialogue";
+  if (typeof dialogueId !== "string" || !TTS_BATCH_ID.test(dialogueId)) {
+    errors.push({ field: "dialogueId", message: "must be 1-64 letters, digits, - or _" });
+  }
+  const castingKey = body?.castingKey ?? body?.seriesId;
+  if (castingKey !== undefined && (typeof castingKey !== "string" || !TTS_BATCH_ID.test(castingKey))) {
+    errors.push({ field: "castingKey", message: "must be 1-64 letters, digits, - or _" });
+  }
+  if (body?.speed !== undefined && body.speed !== "regular" && body.speed !== "slow") {
+    errors.push({ field: "speed", message: "must be regular or slow" });
+  }
+  const cast: Record<string, string> = {};
+  if (body?.cast !== undefined) {
+    if (!body.cast || typeof body.cast !== "object" || Array.isArray(body.cast)) {
+      errors.push({ field: "cast", message: "must be an object of speaker → voice" });
+    } else {
+      for (const [speaker, voice] of Object.entries(body.cast)) {
+        if (typeof voice !== "string" || !voice || voice.length > 40) errors.push({ field: `cast.${speaker}`, message: "must be a voice name" });
+        else cast[speaker] = voice;
+      }
+    }
+  }
+
+  if (!Array.isArray(body?.lines) || body.lines.length === 0) {
+    errors.push({ field: "lines", message: "must be a non-empty array" });
+    return { ok: false, errors };
+  }
+  if (body.lines.length > DIALOGUE_MAX_LINES) {
+    errors.push({ field: "lines", message: `at most ${DIALOGUE_MAX_LINES} lines per dialogue` });
+    return { ok: false, errors };
+  }
+  const lines: DialogueLine[] = body.lines.map((raw: any, i: number) => {
+    const speaker = typeof raw?.speaker === "string" ? raw.speaker.trim() : "";
+    if (!speaker || speaker.length > 40) errors.push({ field: `lines[${i}].speaker`, message: "must be a name of 1-40 characters" });
+    if (typeof raw?.text !== "string" || !raw.text.trim()) {
+      errors.push({ field: `lines[${i}].text`, message: "must be a non-empty string" });
+    } else if (raw.text.length > TTS_BATCH_MAX_TEXT) {
+      errors.push({ field: `lines[${i}].text`, message: `at most ${TTS_BATCH_MAX_TEXT} characters` });
+    }
+    return { speaker, text: raw?.text };
+  });
+  if (new Set(lines.map((l) => l.speaker)).size > DIALOGUE_MAX_SPEAKERS) {
+    errors.push({ field: "lines", message: `at most ${DIALOGUE_MAX_SPEAKERS} speakers per dialogue` });
+  }
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    lines,
+    dialogueId,
+    language: typeof body.language === "string" ? body.language : undefined,
+    speed: body.speed,
+    castingKey,
+    cast,
+    format,
+  };
+}
+
+/* ================================
+   Difficulty analysis (CEFR estimate)
+   ================================ */
+
+// A deterministic, dictionary-light estimate of how hard a text reads. Each statistic maps to a
+// band through the thresholds below and the estimate is their weighted average. Coverage and rare
+// words need a frequency list (the ~150 most common words of EN, PT, ES, FR, DE, IT); without one
+// only sentence length and variety count. Chinese and Japanese are measured in characters.
+// A sanity check for generated lessons, not a placement test.
+
+type DifficultyMetric = "avgSentenceLength" | "typeTokenRatio" | "coverage" | "rareWordDensity";
+
+type DifficultyReport = {
+  language: string;
+  estimate: string | null;
+  target: string | null;
+  /** Bands between estimate and target; positive = harder than asked */
+  delta: number | null;
+  stats: { words: number; sentences: number } & Record<DifficultyMetric, number | null>;
+  bands: Partial<Record<DifficultyMetric, string>>;
+  explanation: string[];
+};
+
+// Upper bound of A1, A2, B1, B2, C1 (beyond the last is C2); coverage falls as texts get harder
+const DIFFICULTY_BANDS: Record<DifficultyMetric, { limits: number[]; weight: number; falling?: boolean }> = {
+  avgSentenceLength: { limits: [7, 10, 14, 18, 23], weight: 0.35 },
+  typeTokenRatio: { limits: [0.55, 0.62, 0.68, 0.73, 0.78], weight: 0.15 },
+  coverage: { limits: [0.6, 0.55, 0.5, 0.45, 0.4], weight: 0.25, falling: true },
+  rareWordDensity: { limits: [0.03, 0.06, 0.1, 0.14, 0.18], weight: 0.25 },
+};
+const CHARACTER_SENTENCE_LIMITS = [12, 18, 25, 32, 40];
+
+const DIFFICULTY_MIN_WORDS = 40;
+const DIFFICULTY_MAX_TEXT = 20_000;
+const MATTR_WINDOW = 50;
+const RARE_WORD_MIN_LENGTH = 8;
+
+const LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  portuguese: "pt",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  chinese: "zh",
+  mandarin: "zh",
+  japanese: "ja",
+  korean: "ko",
+};
+
+const FREQUENT_WORDS: Record<string, string> = {
+  en: `the be is are was were been being am to of and a an in that have has had it for not on with he as you do does did at
+this but his by from they we say said her she or will my one all would there their what so up out if about who get got
+which go goes went me when make made can could like time no just him know take people into year your good some them see
+other than then now look only come its over think also back after use two how our work first well way even new want
+because any these give day most us very many much here where why more little big old man woman child house home thing
+night those should may must let put tell find long great same own never always again every`,
+  pt: `de a o que e do da em um uma para é com não os as no na se por mais dos das como mas foi ao aos ele ela eles elas tem
+à seu sua seus suas ou ser quando muito há nos nas já está estão eu também só pelo pela pelos pelas até isso entre era
+depois sem mesmo ter quem me esse essa esses essas você vocês tinha foram num numa nem meu minha meus minhas às têm havia
+seja qual será nós tenho lhe deles dela este esta estes estas isto aquele aquela aquilo sou somos são estou estava fazer
+faz fez ir vai vou ver vê dizer disse dia dias casa tempo ano anos vez bem aqui ali lá pouco grande bom boa novo nova
+hoje agora ainda sempre nunca onde porque cada outro outra todos todas tudo coisa homem mulher cidade rua água`,
+  es: `de la que el en y a los se del las un por con no una su para es al lo como más pero sus le ya o este sí porque esta
+entre cuando muy sin sobre también me hasta hay donde quien desde todo nos durante todos uno les ni contra otros ese eso
+ante ellos e esto mí antes algunos qué unos yo otro otras otra él tanto esa estos mucho quienes nada muchos cual poco
+ella estar estas algunas algo nosotros mi mis tú te ti tu tus ellas vosotros os mío mía suyo fue era son está están
+estoy ser tiene tengo tienen hace hacer va voy ir ver dijo día días casa tiempo año años vez bien aquí ahora hoy siempre
+nunca grande bueno buena nuevo nueva cada cosa hombre mujer ciudad calle agua`,
+  fr: `de la le et les des en un une du est que à il pas pour qui dans ce ne sur se au plus par je avec tout faire son
+sa ses on mais nous comme ou si leur y dire elle avant deux bien où même ils sans peut tous aussi cette été fait
+était ont vous lui très autre temps leurs après encore moi toi te me mon ma mes ton ta tes notre nos votre vos aux
+cela ça ces aller va vais voir suis es sommes êtes sont a ai as avons avez avait jour jours maison an ans fois ici
+maintenant toujours jamais grand grande bon bonne nouveau nouvelle chaque chose homme femme ville rue eau quand parce
+alors puis non oui rien petit petite`,
+  de: `der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass
+sie nach wird bei einer um am sind noch wie einem über einen so zum war haben nur oder aber vor zur bis mehr durch man
+sein wurde sei ich du wir ihr mein meine dein deine unser ihre kein keine was wer wo wann warum hier dort da jetzt heute
+immer nie schon sehr viel viele gut groß klein neu alt tag tage haus zeit jahr jahre mal mann frau kind stadt straße
+wasser ja nein geht gehen sehen sagen sagte machen macht kommt kommen bin bist seid hatte hatten gibt dann denn weil
+wenn ob alle alles etwas nichts`,
+  it: `di e il la che a per un in è non una le si con i da del della al lo gli ma come più anche ho ha hanno sono sei
+siamo era erano io tu lui lei noi voi loro mio mia miei mie tuo tua suo sua nostro vostro questo questa questi queste
+quello quella tutto tutti tutte niente nulla molto poco bene male qui qua lì là ora adesso oggi sempre mai già
+ancora dove quando perché chi cosa fare fa fatto andare va vado vedere dire detto giorno giorni casa tempo anno anni
+volta grande piccolo buono buona nuovo nuova ogni uomo donna città strada acqua nel nella dei delle alla alle sul
+sulla essere avere poi se`,
+};
+
+const frequentWordSets = new Map<string, Set<string>>();
+
+function frequentWords(code: string | null): Set<string> | null {
+  if (!code || !FREQUENT_WORDS[code]) return null;
+  let set = frequentWordSets.get(code);
+  if (!set) {
+    set = new Set(FREQUENT_WORDS[code].split(/\s+/).filter(Boolean).map(wordKey));
+    frequentWordSets.set(code, set);
+  }
+  return set;
+}
+
+// "Portuguese (Brazil)", "pt-BR" and "pt" all resolve to "pt"; unknown names to null
+function languageCode(language: string): string | null {
+  const s = language.toLowerCase().trim();
+  if (/^[a-z]{2}([-_][a-z]{2,4})?$/.test(s)) return s.slice(0, 2);
+  return LANGUAGE_CODES[s.replace(/\s*\(.*$/, "")] ?? null;
+}
+
+// Moving-average type/token ratio: plain TTR falls with length, MATTR does not
+function movingTypeTokenRatio(tokens: string[]): number {
+  if (tokens.length <= MATTR_WINDOW) return new Set(tokens).size / Math.max(1, tokens.length);
+  const counts = new Map<string, number>();
+  for (const t of tokens.slice(0, MATTR_WINDOW)) counts.set(t, (counts.get(t) ?? 0) + 1);
+  let sum = counts.size;
+  for (let i = MATTR_WINDOW; i < tokens.length; i++) {
+    const out = tokens[i - MATTR_WINDOW];
+    const left = counts.get(out)! - 1;
+    if (left) counts.set(out, left);
+    else counts.delete(out);
+    counts.set(tokens[i], (counts.get(tokens[i]) ?? 0) + 1);
+    sum += counts.size;
+  }
+  return sum / (tokens.length - MATTR_WINDOW + 1) / MATTR_WINDOW;
+}
+
+function difficultyBand(value: number, limits: number[], falling = false): number {
+  const i = limits.findIndex((limit) => (falling ? value >= limit : value <= limit));
+  return i === -1 ? limits.length : i;
+}
+
+function analyzeDifficulty(text: string, language: string, target?: string): DifficultyReport {
+  const code = languageCode(language);
+  const byCharacter = code === "zh" || code === "ja";
+  const tokens = textWords(text).map((w) => wordKey(w.text));
+  const sentences = text.split(/[.!?…。！？]+/).filter((part) => textWords(part).length > 0).length;
+  const list = frequentWords(code);
+  const known = (t: string) => list!.has(t) || /^\p{N}+$/u.test(t);
+
+  const ratio = (n: number) => round3(n / Math.max(1, tokens.length));
+  const stats: DifficultyReport["stats"] = {
+    words: tokens.length,
+    sentences,
+    avgSentenceLength: Math.round((tokens.length / Math.max(1, sentences)) * 10) / 10,
+    // Single characters repeat by nature, so variety says little for character-counted languages
+    typeTokenRatio: byCharacter ? null : round3(movingTypeTokenRatio(tokens)),
+    coverage: list ? ratio(tokens.filter(known).length) : null,
+    rareWordDensity: list ? ratio(tokens.filter((t) => !known(t) && [...t].length >= RARE_WORD_MIN_LENGTH).length) : null,
+  };
+
+  const bands: DifficultyReport["bands"] = {};
+  let weighted = 0;
+  let weights = 0;
+  for (const metric of Object.keys(DIFFICULTY_BANDS) as DifficultyMetric[]) {
+    const value = stats[metric];
+    if (value === null) continue;
+    const cfg = DIFFICULTY_BANDS[metric];
+    const limits = metric === "avgSentenceLength" && byCharacter ? CHARACTER_SENTENCE_LIMITS : cfg.limits;
+    const band = difficultyBand(value, limits, cfg.falling);
+    bands[metric] = CEFR_LEVELS[band];
+    weighted += band * cfg.weight;
+    weights += cfg.weight;
+  }
+
+  const unit = byCharacter ? "characters" : "words";
+  const explanation = [`Average sentence length ${stats.avgSentenceLength} ${unit} (${bands.avgSentenceLength}).`];
+  if (stats.typeTokenRatio !== null) {
+    explanation.push(`Vocabulary variety (moving type/token ratio) ${stats.typeTokenRatio} (${bands.typeTokenRatio}).`);
+  }
+  if (stats.coverage !== null && stats.rareWordDensity !== null) {
+    explanation.push(`${Math.round(stats.coverage * 100)}% of words are among the most frequent in ${language} (${bands.coverage}).`);
+    explanation.push(`${Math.round(stats.rareWordDensity * 100)}% are long words outside that list (${bands.rareWordDensity}).`);
+  } else {
+    explanation.push(`No frequency list for ${language}; estimated from sentence length and variety only.`);
+  }
+
+  const level = target && CEFR_LEVELS.includes(target) ? target : null;
+  if (tokens.length < DIFFICULTY_MIN_WORDS) {
+    explanation.push(`Too short to estimate: ${tokens.length} ${unit}, at least ${DIFFICULTY_MIN_WORDS} needed.`);
+    return { language, estimate: null, target: level, delta: null, stats, bands, explanation };
+  }
+  const band = Math.round(weighted / weights);
+  const delta = level ? band - CEFR_LEVELS.indexOf(level) : null;
+  const verdict = delta === null ? "" : delta === 0 ? `, as requested` : `, ${Math.abs(delta)} band(s) ${delta > 0 ? "above" : "below"} the requested ${level}`;
+  explanation.push(`Estimated ${CEFR_LEVELS[band]}${verdict}.`);
+  return { language, estimate: CEFR_LEVELS[band], target: level, delta, stats, bands, explanation };
+}
+
+/* ================================
+   Lesson generation (Durable Object)
+   ================================ */
+
+// One instance per lesson job (idFromName(jobId)). Runs the same pipeline the app used to run
+// on-device (write → translate → segment → audio) as a chain of alarms, so generation continues
+// while the app is backgrounded. Every step is persisted; a failed step is retried with backoff,
+// and a job that cannot finish releases its hold.
+
+type LessonRequest = {
+  mode: "random" | "prompt";
+  userPrompt: string;
+  genLanguage: string;
+  transLanguage: string;
+  segmentation: "sentences" | "paragraphs";
+  lengthWords: number;
+  speechSpeed: "regular" | "slow";
+  translationStyle: "literal" | "idiomatic";
+  languageLevel: "A1" | "A2" | "B1" | "B2" | "C1" | "C2";
+  userChosenTopic?: string;
+  topicPool?: string[];
+  /** Set by LessonSeries for its parts; never taken from the client */
+  series?: LessonSeriesContext;
+};
+
+// Where a part sits in its series and what came before it
+type LessonSeriesContext = {
+  seriesId: string;
+  partNumber: number;
+  totalParts: number;
+  outline?: string[];
+  previousSummary?: string;
+};
+
+type LessonStep = "write" | "translate" | "summarize" | "audio" | "finalize";
+type LessonStatus = "queued" | "running" | "done" | "failed";
+
+// Same row shape as the app's segments_<lesson>.json
+type LessonSegment = {
+  id: number;
+  pt_text: string;
+  en_text: string;
+  pt_file: string;
+  en_file: string;
+  paragraph: number;
+};
+
+type LessonJobState = {
+  jobId: string;
+  deviceId: string;
+  request: LessonRequest;
+  status: LessonStatus;
+  step: LessonStep;
+  /** Failed attempts of the current step */
+  attempts: number;
+  createdAt: number;
+  updatedAt: number;
+  /** Writing brief from the refine call; kept so a rewrite reuses it */
+  brief?: string;
+  title?: string;
+  body?: string;
+  /** Level check of the accepted text, and how many drafts were rejected for missing the level */
+  difficulty?: DifficultyReport;
+  rewrites?: number;
+  levelFeedback?: string;
+  translation?: string;
+  /** Rolling story summary through this part (series parts only) */
+  summary?: string;
+  segments?: LessonSegment[];
+  /** Segments whose audio (both languages) is stored */
+  audioDone: number;
+  /** Downloadable file names under lessons/<jobId>/ once done */
+  files?: string[];
+  charged?: number;
+  error?: string;
+  finishedAt?: number;
+};
+
+// Thrown by pipeline steps; retryable errors are attempted again after a backoff
+type LessonStepError = { isLessonError: true; error: string; retryable: boolean };
+
+const LESSON_JOB_TTL_SECONDS = 3600;
+const LESSON_MAX_ATTEMPTS = 3;
+// A draft whose estimated level is further than this from the requested one is rewritten (at most LESSON_MAX_REWRITES times)
+const LESSON_LEVEL_TOLERANCE = 1;
+const LESSON_MAX_REWRITES = 1;
+const LESSON_RETRY_BASE_MS = 5000;
+// TTS calls per alarm; keeps each invocation short and progress visible
+const LESSON_AUDIO_SEGMENTS_PER_STEP = 4;
+
+function lessonStepError(error: string, retryable: boolean): LessonStepError {
+  return { isLessonError: true, error, retryable };
+}
+
+function lessonsFor(env: Env, jobId: string): DurableObjectStub<LessonJob> {
+  return env.LESSONS.get(env.LESSONS.idFromName(jobId));
+}
+
+function lessonObjectKey(jobId: string, file: string): string {
+  return `lessons/${jobId}/${file}`;
+}
+
+// Validate and fill defaults; returns an error message for the client on bad input
+function parseLessonRequest(body: any): { ok: true; request: LessonRequest } | { ok: false; error: string } {
+  const str = (v: unknown) => (typeof v === "string" ? v.trim() : "");
+  const mode = body?.mode === "prompt" ? "prompt" : "random";
+  const request: LessonRequest = {
+    mode,
+    userPrompt: str(body?.userPrompt),
+    genLanguage: str(body?.genLanguage),
+    transLanguage: str(body?.transLanguage),
+    segmentation: body?.segmentation === "paragraphs" ? "paragraphs" : "sentences",
+    lengthWords: Math.min(Math.max(50, Math.floor(Number(body?.lengthWords) || 300)), 2000),
+    speechSpeed: body?.speechSpeed === "slow" ? "slow" : "regular",
+    translationStyle: body?.translationStyle === "literal" ? "literal" : "idiomatic",
+    languageLevel: CEFR_LEVELS.includes(body?.languageLevel) ? body.languageLevel : "B1",
+    userChosenTopic: str(body?.userChosenTopic).slice(0, 300) || undefined,
+    topicPool: Array.isArray(body?.topicPool)
+      ? body.topicPool.map((t: unknown) => str(t).slice(0, 300)).filter(Boolean).slice(0, 100)
+      : undefined,
+  };
+  if (!request.genLanguage || !request.transLanguage) return { ok: false, error: "genLanguage and transLanguage are required" };
+  if (mode === "prompt" && !request.userPrompt) return { ok: false, error: "userPrompt is required in prompt mode" };
+  if (request.userPrompt.length > 4000) return { ok: false, error: "userPrompt is limited to 4000 characters" };
+  return { ok: true, request };
+}
+
+// The user's prompt, or a topic for random mode (the chosen one, else one from their interests)
+function lessonTopic(req: LessonRequest): string {
+  if (req.mode === "prompt") return req.userPrompt;
+  const pool = req.topicPool ?? [];
+  return req.userChosenTopic || pool[Math.floor(Math.random() * pool.length)] || "an everyday situation";
+}
+
+// Mirrors GeneratorService.languageSlug so file names match lessons generated on-device
+function lessonLanguageSlug(name: string): string {
+  const slug = name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return (slug || "lang").slice(0, 6);
+}
+
+function lessonParagraphs(text: string): string[] {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s*\n\s*/g, " ").trim())
+    .filter(Boolean);
+}
+
+// Sentence enders, then optional closing quotes/brackets (same rule as the app's splitter)
+function lessonSentences(text: string): string[] {
+  const out: string[] = [];
+  const rx = /[^]*?[.!?…]+["“”'’»)\]]*(?=\s|$)/g;
+  let last = 0;
+  for (const m of text.matchAll(rx)) {
+    const s = m[0].trim();
+    if (s) out.push(s);
+    last = (m.index ?? 0) + m[0].length;
+  }
+  const tail = text.slice(last).trim();
+  if (tail) out.push(tail);
+  return out;
+}
+
+// Pair target and helper text into segments, keeping the paragraph each segment came from
+function buildLessonSegments(jobId: string, req: LessonRequest, body: string, translation: string): LessonSegment[] {
+  const srcParas = lessonParagraphs(body);
+  const dstParas = lessonParagraphs(translation);
+  const pairs: { pt: string; en: string; paragraph: number }[] = [];
+
+  if (req.segmentation === "paragraphs") {
+    const count = Math.min(srcParas.length, dstParas.length);
+    for (let i = 0; i < count; i++) pairs.push({ pt: srcParas[i], en: dstParas[i], paragraph: i });
+  } else {
+    const src = srcParas.flatMap((p, paragraph) => lessonSentences(p).map((s) => ({ s, paragraph })));
+    const dst = dstParas.flatMap((p) => lessonSentences(p));
+    const count = Math.min(src.length, dst.length);
+    for (let i = 0; i < count; i++) pairs.push({ pt: src[i].s, en: dst[i], paragraph: src[i].paragraph });
+  }
+
+  const srcSlug = lessonLanguageSlug(req.genLanguage);
+  const dstSlug = lessonLanguageSlug(req.transLanguage);
+  return pairs.map((p, i) => ({
+    id: i + 1,
+    pt_text: p.pt,
+    en_text: p.en,
+    pt_file: `${srcSlug}_${jobId}_${i + 1}.mp3`,
+    en_file: `${dstSlug}_${jobId}_${i + 1}.mp3`,
+    paragraph: p.paragraph,
+  }));
+}
+
+// Client-facing view of a job
+function lessonStatusView(s: LessonJobState) {
+  return {
+    jobId: s.jobId,
+    status: s.status,
+    step: s.step,
+    progress: { segmentsDone: s.audioDone, segmentsTotal: s.segments?.length ?? null },
+    title: s.title ?? null,
+    difficulty: s.difficulty ? { estimate: s.difficulty.estimate, target: s.difficulty.target, rewrites: s.rewrites ?? 0 } : null,
+    files: s.files ?? null,
+    charged: s.charged ?? null,
+    error: s.error ?? null,
+    createdAt: s.createdAt,
+    updatedAt: s.updatedAt,
+    finishedAt: s.finishedAt ?? null,
+  };
+}
+
+// Templated, structured chat call against a job's hold: budget-checked before, metered after
+async function lessonChat(env: Env, deviceId: string, jobId: string, prompt: RenderedPrompt): Promise<Record<string, string>> {
+  const budget = await ledgerFor(env, deviceId).meterUsage(
+    deviceId,
+    jobId,
+    { chatCalls: 1, promptTokens: 0, completionTokens: 0 },
+    { enforce: true }
+  );
+  if (!budget.ok) throw lessonStepError(budget.error, false);
+
+  const { provider, model } = modelRoute(env, "lessons.chat");
+  const body = promptChatBody(prompt);
+  if (model) body.model = model;
+  const r = await provider.chatCompletion(body);
+  if (!r.ok) throw lessonStepError(`upstream_${r.status}`, r.status === 429 || r.status >= 500);
+
+  const data = await r.json<any>();
+  await recordChatUsage(env, deviceId, jobId, provider.reportUsage(data?.usage));
+  try {
+    const out = JSON.parse(data?.choices?.[0]?.message?.content ?? "");
+    if ((prompt.response?.fields ?? []).every((f) => typeof out?.[f] === "string")) return out;
+  } catch {}
+  throw lessonStepError("bad_model_output", true);
+}
+
+export class LessonJob extends DurableObject<Env> {
+  private async load(): Promise<LessonJobState | null> {
+    return (await this.ctx.storage.get<LessonJobState>("state")) ?? null;
+  }
+
+  private async save(s: LessonJobState) {
+    s.updatedAt = Date.now();
+    await this.ctx.storage.put("state", s);
+  }
+
+  // Create the job and schedule its first step. Idempotent per device: a retried
+  // start returns the existing job instead of generating twice.
+  async start(jobId: string, deviceId: string, request: LessonRequest): Promise<{ ok: true; created: boolean; state: LessonJobState } | { ok: false; error: string }> {
+    const existing = await this.load();
+    if (existing) {
+      if (existing.deviceId !== deviceId) return { ok: false, error: "job_exists" };
+      return { ok: true, created: false, state: existing };
+    }
+    const now = Date.now();
+    const s: LessonJobState = {
+      jobId,
+      deviceId,
+      request,
+      status: "queued",
+      step: "write",
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+      audioDone: 0,
+    };
+    await this.save(s);
+    await this.ctx.storage.setAlarm(now);
+    return { ok: true, created: true, state: s };
+  }
+
+  async status(deviceId: string): Promise<LessonJobState | null> {
+    const s = await this.load();
+    return s && s.deviceId === deviceId ? s : null;
+  }
+
+  async alarm() {
+    const s = await this.load();
+    if (!s || s.status === "done" || s.status === "failed") return;
+
+    s.status = "running";
+    try {
+      await this.runStep(s);
+      s.attempts = 0;
+      await this.save(s);
+      // runStep flips the status to "done" once the lesson is finalized
+      if (s.status === "running") await this.ctx.storage.setAlarm(Date.now());
+      else await this.notifySeries(s);
+    } catch (err: any) {
+      const e: LessonStepError = err?.isLessonError ? err : lessonStepError(String(err?.message || err), true);
+      s.attempts += 1;
+      console.log(`[lessons] jobId=${s.jobId} step=${s.step} attempt=${s.attempts} error=${e.error} retryable=${e.retryable}`);
+      if (e.retryable && s.attempts < LESSON_MAX_ATTEMPTS) {
+        await this.save(s);
+        await this.ctx.storage.setAlarm(Date.now() + LESSON_RETRY_BASE_MS * 2 ** (s.attempts - 1));
+        return;
+      }
+      await this.fail(s, e.error);
+    }
+  }
+
+  private async runStep(s: LessonJobState) {
+    switch (s.step) {
+      case "write": {
+        const { title, body } = await this.write(s);
+        const report = analyzeDifficulty(body, s.request.genLanguage, s.request.languageLevel);
+        if (report.delta !== null && Math.abs(report.delta) > LESSON_LEVEL_TOLERANCE && (s.rewrites ?? 0) < LESSON_MAX_REWRITES) {
+          // Stay on "write": the next alarm drafts again with the measurements as feedback
+          s.rewrites = (s.rewrites ?? 0) + 1;
+          s.levelFeedback = `A previous draft read as ${report.estimate} instead of ${report.target}. ${report.explanation.join(" ")} Adjust sentence length and vocabulary to ${report.target}.`.slice(0, 1000);
+          console.log(`[lessons] rewrite jobId=${s.jobId} estimate=${report.estimate} target=${report.target}`);
+          return;
+        }
+        s.difficulty = report;
+        s.title = title;
+        s.body = body;
+        s.step = "translate";
+        return;
+      }
+      case "translate": {
+        const req = s.request;
+        const same = req.genLanguage.toLowerCase() === req.transLanguage.toLowerCase();
+        s.translation = same ? s.body! : await this.translate(s, s.body!);
+        s.segments = buildLessonSegments(s.jobId, req, s.body!, s.translation);
+        if (!s.segments.length) throw lessonStepError("empty_lesson", true);
+        s.step = req.series ? "summarize" : "audio";
+        return;
+      }
+      case "summarize": {
+        s.summary = await this.summarize(s);
+        s.step = "audio";
+        return;
+      }
+      case "audio": {
+        const segments = s.segments!;
+        const batch = segments.slice(s.audioDone, s.audioDone + LESSON_AUDIO_SEGMENTS_PER_STEP);
+        for (const seg of batch) {
+          await this.synthesize(s, seg.pt_text, s.request.genLanguage, seg.pt_file);
+          await this.synthesize(s, seg.en_text, s.request.transLanguage, seg.en_file);
+          s.audioDone += 1;
+          await this.save(s);
+        }
+        if (s.audioDone >= segments.length) s.step = "finalize";
+        return;
+      }
+      case "finalize": {
+        await this.finalize(s);
+        return;
+      }
+    }
+  }
+
+  private async write(s: LessonJobState): Promise<{ title: string; body: string }> {
+    const req = s.request;
+
+    if (!s.brief) {
+      const refined = await lessonChat(
+        this.env,
+        s.deviceId,
+        s.jobId,
+        await renderServerPrompt(
+          "lesson.refine@1",
+          { targetLanguage: req.genLanguage, wordCount: req.lengthWords, level: req.languageLevel, material: lessonTopic(req) },
+          s.deviceId
+        )
+      );
+      s.brief = refined.refined_prompt;
+    }
+
+    const series = req.series;
+    const text = await lessonChat(
+      this.env,
+      s.deviceId,
+      s.jobId,
+      await renderServerPrompt(
+        "lesson.story@1",
+        {
+          targetLanguage: req.genLanguage,
+          wordCount: req.lengthWords,
+          level: req.languageLevel,
+          brief: s.brief,
+          partNumber: series?.partNumber,
+          totalParts: series?.totalParts,
+          outline: series?.outline,
+          outlineItem: series?.outline?.[series.partNumber - 1],
+          previousSummary: series?.previousSummary,
+          levelFeedback: s.levelFeedback,
+        },
+        s.deviceId
+      )
+    );
+
+    const title = text.title.replace(/^["“”'‘’#*\s]+|["“”'‘’\s]+$/g, "") || "Untitled";
+    return { title, body: lessonParagraphs(text.body).join("\n\n") };
+  }
+
+  // Story so far, including this part, for the next part's prompt
+  private async summarize(s: LessonJobState): Promise<string> {
+    const out = await lessonChat(
+      this.env,
+      s.deviceId,
+      s.jobId,
+      await renderServerPrompt("series.summary@1", { previousSummary: s.request.series?.previousSummary, text: s.body }, s.deviceId)
+    );
+    return out.summary.trim().slice(0, SERIES_MAX_SUMMARY_CHARS);
+  }
+
+  // Paragraph by paragraph, so sentence alignment only has to hold within a paragraph
+  private async translate(s: LessonJobState, body: string): Promise<string> {
+    const req = s.request;
+    const out = await Promise.all(
+      lessonParagraphs(body).map(async (text) =>
+        lessonChat(
+          this.env,
+          s.deviceId,
+          s.jobId,
+          await renderServerPrompt(
+            "lesson.translate@1",
+            { targetLanguage: req.transLanguage, style: req.translationStyle, text },
+            s.deviceId
+          )
+        )
+      )
+    );
+    return out.map((t) => t.translation.trim()).join("\n\n");
+  }
+
+  // TTS one segment into the lesson folder; shares the /tts cache
+  private async synthesize(s: LessonJobState, text: string, language: string, file: string) {
+    const key = lessonObjectKey(s.jobId, file);
+    if (await this.env.AUDIO.head(key)) return; // stored by an earlier attempt
+
+    const { provider, model } = modelRoute(this.env, "lessons.tts");
+    const upstreamBody = buildTtsBody({ text, language, speed: s.request.speechSpeed }, model!);
+    const cacheKey = await ttsCacheKey(provider.name, upstreamBody);
+    let audio = await getCachedTts(this.env, cacheKey);
+    if (!audio) {
+      // Charged only once the audio exists, and once per file, so a retried step is not charged again
+      const ledger = ledgerFor(this.env, s.deviceId);
+      const budget = await ledger.meterUsage(s.deviceId, s.jobId, { ttsChars: 0 }, { enforce: true });
+      if (!budget.ok) throw lessonStepError(budget.error, false);
+
+      const r = await provider.synthesizeSpeech(upstreamBody);
+      if (!r.ok) throw lessonStepError(`upstream_${r.status}`, r.status === 429 || r.status >= 500);
+      audio = await r.arrayBuffer();
+      await ledger.meterUsage(s.deviceId, s.jobId, { ttsChars: upstreamBody.input.length }, { enforce: false, once: `tts:${file}` });
+      await putCachedTts(this.env, cacheKey, audio);
+    }
+    await this.env.AUDIO.put(key, audio, { httpMetadata: { contentType: "audio/mpeg" } });
+  }
+
+  private async finalize(s: LessonJobState) {
+    const req = s.request;
+    const segmentsFile = `segments_${s.jobId}.json`;
+    const meta = {
+      schemaVersion: 1,
+      id: s.jobId,
+      title: s.title,
+      targetLanguage: req.genLanguage,
+      translationLanguage: req.transLanguage,
+      segmentation: req.segmentation,
+      speechSpeed: req.speechSpeed,
+      languageLevel: req.languageLevel,
+      createdAtISO: new Date(s.createdAt).toISOString(),
+    };
+    await this.env.AUDIO.put(lessonObjectKey(s.jobId, segmentsFile), JSON.stringify(s.segments), {
+      httpMetadata: { contentType: "application/json" },
+    });
+    await this.env.AUDIO.put(lessonObjectKey(s.jobId, "lesson_meta.json"), JSON.stringify(meta), {
+      httpMetadata: { contentType: "application/json" },
+    });
+
+    const res = await ledgerFor(this.env, s.deviceId).commitJob(s.deviceId, s.jobId, priceTable(this.env));
+    if (!res.ok) throw lessonStepError(res.error, false);
+
+    s.files = [segmentsFile, "lesson_meta.json", ...s.segments!.flatMap((seg) => [seg.pt_file, seg.en_file])];
+    s.charged = res.charge?.charged ?? 0;
+    s.status = "done";
+    s.finishedAt = Date.now();
+    console.log(`[lessons] done jobId=${s.jobId} device=${s.deviceId} segments=${s.segments!.length} charged=${s.charged}`);
+  }
+
+  // Give up: release the hold (nothing is charged) and record why
+  private async fail(s: LessonJobState, error: string) {
+    await ledgerFor(this.env, s.deviceId).cancelJob(s.deviceId, s.jobId);
+    s.status = "failed";
+    s.error = error;
+    s.finishedAt = Date.now();
+    await this.save(s);
+    console.log(`[lessons] failed jobId=${s.jobId} device=${s.deviceId} step=${s.step} error=${error}`);
+    await this.notifySeries(s);
+  }
+
+  // Hand a finished part back to its series so it can start the next one
+  private async notifySeries(s: LessonJobState) {
+    if (!s.request.series) return;
+    try {
+      await seriesFor(this.env, s.request.series.seriesId).partFinished(s.deviceId, s.jobId, {
+        status: s.status === "done" ? "done" : "failed",
+        title: s.title,
+        summary: s.summary,
+        error: s.error,
+      });
+    } catch (err: any) {
+      console.error(`[lessons] series notify failed jobId=${s.jobId} error=${String(err?.message || err)}`);
+    }
+  }
+}
+
+/* ================================
+   Lesson series (Durable Object)
+   ================================ */
+
+// One instance per series (idFromName(seriesId)). Owns what the app used to chain itself:
+// the outline, the rolling summary, and the order parts are generated in. Every part is a
+// LessonJob with its own hold; all holds are placed when the series is created (or extended),
+// and holds of parts that never get generated are released.
+
+type SeriesMode = "outline" | "continuation";
+type SeriesStatus = "running" | "done" | "failed" | "cancelled";
+type SeriesPartStatus = "reserved" | "generating" | "done" | "failed" | "released";
+
+type SeriesPart = {
+  partNumber: number;
+  jobId: string;
+  amount: number;
+  status: SeriesPartStatus;
+  title?: string;
+  error?: string;
+};
+
+type SeriesState = {
+  seriesId: string;
+  deviceId: string;
+  request: LessonRequest;
+  mode: SeriesMode;
+  status: SeriesStatus;
+  outline?: string[];
+  /** Rolling summary through the last finished part */
+  summary?: string;
+  parts: SeriesPart[];
+  /** Failed attempts at generating the outline */
+  attempts: number;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+type SeriesResult = { ok: true; state: SeriesState } | { ok: false; error: string; status: number; balance?: number; reserved?: number };
+
+const SERIES_MAX_PARTS = 10;
+const SERIES_MAX_SUMMARY_CHARS = 2000;
+
+function seriesFor(env: Env, seriesId: string): DurableObjectStub<LessonSeries> {
+  return env.SERIES.get(env.SERIES.idFromName(seriesId));
+}
+
+function seriesPartJobId(seriesId: string, partNumber: number): string {
+  return `${seriesId}-${partNumber}`;
+}
+
+// Accepts a list or one idea per line; strips "1." / "-" prefixes
+function parseOutline(raw: unknown): string[] | undefined {
+  const items = (Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split("\n") : [])
+    .map((o) => String(o).replace(/^\s*(?:\d+[.)]|[-*•])\s*/, "").trim().slice(0, 300))
+    .filter(Boolean);
+  return items.length ? items.slice(0, SERIES_MAX_PARTS * 2) : undefined;
+}
+
+function seriesStatusView(st: SeriesState) {
+  return {
+    seriesId: st.seriesId,
+    status: st.status,
+    mode: st.mode,
+    totalParts: st.parts.length,
+    completedParts: st.parts.filter((p) => p.status === "done").length,
+    outline: st.outline ?? null,
+    summary: st.summary ?? null,
+    parts: st.parts.map((p) => ({
+      partNumber: p.partNumber,
+      jobId: p.jobId,
+      status: p.status,
+      title: p.title ?? null,
+      error: p.error ?? null,
+    })),
+    error: st.error ?? null,
+    createdAt: st.createdAt,
+    updatedAt: st.updatedAt,
+  };
+}
+
+export class LessonSeries extends DurableObject<Env> {
+  private async load(): Promise<SeriesState | null> {
+    return (await this.ctx.storage.get<SeriesState>("state")) ?? null;
+  }
+
+  private async save(st: SeriesState) {
+    st.updatedAt = Date.now();
+    await this.ctx.storage.put("state", st);
+  }
+
+  // Hold every new part at once. Later parts wait for earlier ones, so their holds live longer.
+  private async reserveParts(st: SeriesState, count: number, amount: number): Promise<SeriesResult | null> {
+    const first = st.parts.length + 1;
+    const parts: SeriesPart[] = Array.from({ length: count }, (_, i) => ({
+      partNumber: first + i,
+      jobId: seriesPartJobId(st.seriesId, first + i),
+      amount,
+      status: "reserved",
+    }));
+    const res = await ledgerFor(this.env, st.deviceId).startJobs(
+      st.deviceId,
+      parts.map((p, i) => ({
+        jobId: p.jobId,
+        amount,
+        ttlSeconds: Math.min(LESSON_JOB_TTL_SECONDS * (i + 1), 86400),
+        token: generateSecureToken(),
+      }))
+    );
+    if (!res.ok) return { ok: false, error: res.error, status: res.status, balance: res.balance, reserved: res.reserved };
+    st.parts.push(...parts);
+    return null;
+  }
+
+  async create(
+    seriesId: string,
+    deviceId: string,
+    request: LessonRequest,
+    opts: { parts: number; amountPerPart: number; mode: SeriesMode; outline?: string[] }
+  ): Promise<SeriesResult & { created?: boolean }> {
+    const existing = await this.load();
+    if (existing) {
+      if (existing.deviceId !== deviceId) return { ok: false, error: "series_exists", status: 409 };
+      return { ok: true, state: existing, created: false };
+    }
+
+    const now = Date.now();
+    const st: SeriesState = {
+      seriesId,
+      deviceId,
+      request,
+      mode: opts.mode,
+      status: "running",
+      outline: opts.outline,
+      parts: [],
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const failed = await this.reserveParts(st, opts.parts, opts.amountPerPart);
+    if (failed) return failed;
+
+    await this.save(st);
+    await this.ctx.storage.setAlarm(now);
+    return { ok: true, state: st, created: true };
+  }
+
+  // Append parts that continue from the latest summary
+  async extend(deviceId: string, parts: number, amountPerPart: number): Promise<SeriesResult> {
+    const st = await this.load();
+    if (!st || st.deviceId !== deviceId) return { ok: false, error: "series_not_found", status: 404 };
+    if (st.status === "cancelled") return { ok: false, error: "series_cancelled", status: 409 };
+    if (st.parts.length + parts > SERIES_MAX_PARTS) return { ok: false, error: "too_many_parts", status: 400 };
+
+    const failed = await this.reserveParts(st, parts, amountPerPart);
+    if (failed) return failed;
+
+    st.status = "running";
+    st.error = undefined;
+    await this.save(st);
+    if (!st.parts.some((p) => p.status === "generating")) await this.ctx.storage.setAlarm(Date.now());
+    return { ok: true, state: st };
+  }
+
+  // Stop after the part in flight (it settles on its own hold); release the rest
+  async cancel(deviceId: string): Promise<SeriesResult> {
+    const st = await this.load();
+    if (!st || st.deviceId !== deviceId) return { ok: false, error: "series_not_found", status: 404 };
+    await this.releaseReserved(st);
+    if (st.status === "running") st.status = "cancelled";
+    await this.save(st);
+    return { ok: true, state: st };
+  }
+
+  async status(deviceId: string): Promise<SeriesState | null> {
+    const st = await this.load();
+    return st && st.deviceId === deviceId ? st : null;
+  }
+
+  // Called by a part's LessonJob when it is done or has given up
+  async partFinished(deviceId: string, jobId: string, result: { status: "done" | "failed"; title?: string; summary?: string; error?: string }) {
+    const st = await this.load();
+    if (!st || st.deviceId !== deviceId) return;
+    const part = st.parts.find((p) => p.jobId === jobId);
+    if (!part || part.status !== "generating") return;
+
+    if (result.status === "done") {
+      part.status = "done";
+      part.title = result.title;
+      if (result.summary) st.summary = result.summary;
+      await this.save(st);
+      if (st.status === "running") await this.ctx.storage.setAlarm(Date.now());
+      return;
+    }
+
+    // Later parts depend on this one's story: stop and refund them
+    part.status = "failed";
+    part.error = result.error;
+    await this.releaseReserved(st);
+    if (st.status === "running") {
+      st.status = "failed";
+      st.error = `part_${part.partNumber}_failed`;
+    }
+    await this.save(st);
+  }
+
+  // Start the next reserved part (generating the outline first if the series needs one)
+  async alarm() {
+    const st = await this.load();
+    if (!st || st.status !== "running") return;
+    if (st.parts.some((p) => p.status === "generating")) return;
+
+    const next = st.parts.find((p) => p.status === "reserved");
+    if (!next) {
+      st.status = "done";
+      await this.save(st);
+      console.log(`[series] done seriesId=${st.seriesId} parts=${st.parts.length}`);
+      return;
+    }
+
+    try {
+      if (st.mode === "outline" && !st.outline) {
+        st.outline = await this.generateOutline(st, next);
+      }
+      const started = await lessonsFor(this.env, next.jobId).start(next.jobId, st.deviceId, {
+        ...st.request,
+        series: {
+          seriesId: st.seriesId,
+          partNumber: next.partNumber,
+          totalParts: st.parts.length,
+          outline: st.outline,
+          previousSummary: st.summary,
+        },
+      });
+      if (!started.ok) throw lessonStepError(started.error, false);
+      next.status = "generating";
+      st.attempts = 0;
+      await this.save(st);
+    } catch (err: any) {
+      const e: LessonStepError = err?.isLessonError ? err : lessonStepError(String(err?.message || err), true);
+      st.attempts += 1;
+      console.log(`[series] seriesId=${st.seriesId} part=${next.partNumber} attempt=${st.attempts} error=${e.error}`);
+      if (e.retryable && st.attempts < LESSON_MAX_ATTEMPTS) {
+        await this.save(st);
+        await this.ctx.storage.setAlarm(Date.now() + LESSON_RETRY_BASE_MS * 2 ** (st.attempts - 1));
+        return;
+      }
+      await this.releaseReserved(st);
+      st.status = "failed";
+      st.error = e.error;
+      await this.save(st);
+    }
+  }
+
+  // One idea per part; metered against the first part's hold
+  private async generateOutline(st: SeriesState, part: SeriesPart): Promise<string[]> {
+    const req = st.request;
+    const total = st.parts.length;
+    const out = await lessonChat(
+      this.env,
+      st.deviceId,
+      part.jobId,
+      await renderServerPrompt(
+        "series.outline@1",
+        { totalParts: total, targetLanguage: req.genLanguage, level: req.languageLevel, theme: lessonTopic(req) },
+        st.deviceId
+      )
+    );
+    const outline = parseOutline(out.outline) ?? [];
+    if (outline.length < total) throw lessonStepError("bad_model_output", true);
+    return outline.slice(0, total);
+  }
+
+  private async releaseReserved(st: SeriesState) {
+    const ledger = ledgerFor(this.env, st.deviceId);
+    for (const p of st.parts) {
+      if (p.status !== "reserved") continue;
+      await ledger.cancelJob(st.deviceId, p.jobId);
+      p.status = "released";
+    }
+  }
+}
+
+/* ================================
+   Promo and gift codes (Durable Object)
+   ================================ */
+
+// Admin-managed codes that grant credits, each with its own amount, total and per-device
+// redemption limits, validity window and campaign tag; gift cards are batches of single-use
+// codes. Every code and its counters live in one PromoCodes instance, so limits hold under
+// concurrent redemptions. The legacy REVIEW_CODE secret is served as a built-in code.
+
+type PromoCode = {
+  code: string;
+  amount: number;
+  /** null = unlimited */
+  maxRedemptions: number | null;
+  perDevice: number;
+  startsAt: number | null;
+  endsAt: number | null;
+  campaign: string | null;
+  /** Shared by the codes of one generated batch */
+  batchId: string | null;
+  disabled: boolean;
+  createdAt: number;
+  redemptions: number;
+  devices: number;
+  creditsGranted: number;
+  lastRedeemedAt: number | null;
+};
+
+type PromoCodeTemplate = Pick<PromoCode, "amount" | "maxRedemptions" | "perDevice" | "startsAt" | "endsAt" | "campaign">;
+
+type PromoRedeemError = "bad_code" | "code_disabled" | "code_not_started" | "code_expired" | "code_exhausted" | "already_redeemed";
+
+type PromoRedeemResult = { ok: true; code: PromoCode } | { ok: false; error: PromoRedeemError; status: number };
+
+const PROMO_CODE_PATTERN = /^[A-Z0-9-]{4,40}$/;
+const PROMO_CAMPAIGN_PATTERN = /^[A-Za-z0-9_.-]{1,60}$/;
+const PROMO_MAX_AMOUNT = 1000;
+const PROMO_BATCH_MAX = 500;
+// No 0/O or 1/I/L: codes get typed in by hand
+const PROMO_CODE_ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+
+function promosFor(env: Env): DurableObjectStub<PromoCodes> {
+  return env.PROMOS.get(env.PROMOS.idFromName("global"));
+}
+
+function normalizePromoCode(code: unknown): string {
+  return typeof code === "string" ? code.trim().toUpperCase().replace(/\s+/g, "") : "";
+}
+
+function generatePromoCode(prefix: string): string {
+  const bytes = new Uint8Array(10);
+  crypto.getRandomValues(bytes);
+  const body = Array.from(bytes, (b) => PROMO_CODE_ALPHABET[b % PROMO_CODE_ALPHABET.length]).join("");
+  return prefix ? `${prefix}-${body}` : body;
+}
+
+// REVIEW_CODE as a code: REVIEW_GRANT_AMOUNT credits, once per device, no total limit
+function reviewPromoCode(env: Env): PromoCode | null {
+  const code = normalizePromoCode(env.REVIEW_CODE);
+  if (!code) return null;
+  return {
+    code,
+    amount: parseInt(env.REVIEW_GRANT_AMOUNT || "20", 10) || 20,
+    maxRedemptions: null,
+    perDevice: 1,
+    startsAt: null,
+    endsAt: null,
+    campaign: "app-review",
+    batchId: null,
+    disabled: false,
+    createdAt: 0,
+    redemptions: 0,
+    devices: 0,
+    creditsGranted: 0,
+    lastRedeemedAt: null,
+  };
+}
+
+function promoTime(value: unknown): number | null | undefined {
+  if (value === undefined || value === null) return null;
+  const t = typeof value === "number" ? value : typeof value === "string" ? Date.parse(value) : NaN;
+  return Number.isFinite(t) ? t : undefined;
+}
+
+// Admin input for one code or a batch template (ISO dates or epoch ms)
+function parsePromoTemplate(body: any): { ok: true; template: PromoCodeTemplate } | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const int = (v: unknown, min: number, max: number) => Number.isInteger(v) && (v as number) >= min && (v as number) <= max;
+  if (!int(body?.amount, 1, PROMO_MAX_AMOUNT)) errors.push({ field: "amount", message: `must be an integer 1-${PROMO_MAX_AMOUNT}` });
+  const maxRedemptions = body?.maxRedemptions ?? null;
+  if (maxRedemptions !== null && !int(maxRedemptions, 1, 1_000_000)) {
+    errors.push({ field: "maxRedemptions", message: "must be a positive integer or null (unlimited)" });
+  }
+  const perDevice = body?.perDevice ?? 1;
+  if (!int(perDevice, 1, 100)) errors.push({ field: "perDevice", message: "must be an integer 1-100" });
+  const startsAt = promoTime(body?.startsAt);
+  const endsAt = promoTime(body?.endsAt);
+  if (startsAt === undefined) errors.push({ field: "startsAt", message: "must be an ISO date or epoch ms" });
+  if (endsAt === undefined) errors.push({ field: "endsAt", message: "must be an ISO date or epoch ms" });
+  if (startsAt && endsAt && endsAt <= startsAt) errors.push({ field: "endsAt", message: "must be after startsAt" });
+  const campaign = body?.campaign ?? null;
+  if (campaign !== null && (typeof campaign !== "string" || !PROMO_CAMPAIGN_PATTERN.test(campaign))) {
+    errors.push({ field: "campaign", message: "must be 1-60 letters, digits, _ . or -" });
+  }
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    template: { amount: body.amount, maxRedemptions, perDevice, startsAt: startsAt ?? null, endsAt: endsAt ?? null, campaign },
+  };
+}
+
+function promoCodeView(c: PromoCode) {
+  const iso = (t: number | null) => (t ? new Date(t).toISOString() : null);
+  return {
+    ...c,
+    startsAt: iso(c.startsAt),
+    endsAt: iso(c.endsAt),
+    createdAt: iso(c.createdAt),
+    lastRedeemedAt: iso(c.lastRedeemedAt),
+    remaining: c.maxRedemptions === null ? null : Math.max(0, c.maxRedemptions - c.redemptions),
+  };
+}
+
+// Shared with the legacy review grant: 5 wrong codes within an hour block the device for a day
+async function codeAttemptsBlocked(env: Env, deviceId: string): Promise<boolean> {
+  return !!(await env.CREDITS.get(`review_blocked:${deviceId}`));
+}
+
+async function recordBadCode(env: Env, deviceId: string): Promise<boolean> {
+  const penaltyKey = `review_penalty:${deviceId}`;
+  const failCount = parseInt((await env.CREDITS.get(penaltyKey)) || "0", 10);
+  await env.CREDITS.put(penaltyKey, String(failCount + 1), { expirationTtl: 3600 });
+  if (failCount >= 4) {
+    await env.CREDITS.put(`review_blocked:${deviceId}`, String(Date.now()), { expirationTtl: 86400 });
+    return true;
+  }
+  return false;
+}
+
+export class PromoCodes extends DurableObject<Env> {
+  private async getCode(code: string): Promise<PromoCode | null> {
+    return (await this.ctx.storage.get<PromoCode>(`code:${code}`)) ?? null;
+  }
+
+  private fresh(code: string, template: PromoCodeTemplate, batchId: string | null): PromoCode {
+    return {
+      code,
+      ...template,
+      batchId,
+      disabled: false,
+      createdAt: Date.now(),
+      redemptions: 0,
+      devices: 0,
+      creditsGranted: 0,
+      lastRedeemedAt: null,
+    };
+  }
+
+  async create(code: string, template: PromoCodeTemplate): Promise<{ ok: true; code: PromoCode } | { ok: false; error: "code_exists"; status: 409 }> {
+    if (await this.getCode(code)) return { ok: false, error: "code_exists", status: 409 };
+    const created = this.fresh(code, template, null);
+    await this.ctx.storage.put(`code:${code}`, created);
+    return { ok: true, code: created };
+  }
+
+  // `count` new codes sharing one template and batch id; generated here so they cannot collide
+  async createBatch(count: number, prefix: string, template: PromoCodeTemplate): Promise<{ batchId: string; codes: PromoCode[] }> {
+    const batchId = crypto.randomUUID();
+    const codes: PromoCode[] = [];
+    while (codes.length < count) {
+      const code = generatePromoCode(prefix);
+      if (codes.some((c) => c.code === code) || (await this.getCode(code))) continue;
+      codes.push(this.fresh(code, template, batchId));
+    }
+    // put() takes at most 128 entries at a time
+    for (let i = 0; i < codes.length; i += 128) {
+      await this.ctx.storage.put(Object.fromEntries(codes.slice(i, i + 128).map((c) => [`code:${c.code}`, c])));
+    }
+    return { batchId, codes };
+  }
+
+  async get(code: string): Promise<PromoCode | null> {
+    return this.getCode(code);
+  }
+
+  async list(filter: { campaign?: string; batchId?: string } = {}): Promise<PromoCode[]> {
+    const all = await this.ctx.storage.list<PromoCode>({ prefix: "code:" });
+    return [...all.values()].filter(
+      (c) => (!filter.campaign || c.campaign === filter.campaign) && (!filter.batchId || c.batchId === filter.batchId)
+    );
+  }
+
+  async setDisabled(code: string, disabled: boolean): Promise<PromoCode | null> {
+    const c = await this.getCode(code);
+    if (!c) return null;
+    c.disabled = disabled;
+    await this.ctx.storage.put(`code:${code}`, c);
+    return c;
+  }
+
+  // Count one redemption if every limit allows it. `builtIn` is stored on first use.
+  async redeem(code: string, deviceId: string, now: number, builtIn?: PromoCode | null): Promise<PromoRedeemResult> {
+    const c = (await this.getCode(code)) ?? (builtIn?.code === code ? { ...builtIn, createdAt: now } : null);
+    if (!c) return { ok: false, error: "bad_code", status: 403 };
+    if (c.disabled) return { ok: false, error: "code_disabled", status: 410 };
+    if (c.startsAt && now < c.startsAt) return { ok: false, error: "code_not_started", status: 403 };
+    if (c.endsAt && now >= c.endsAt) return { ok: false, error: "code_expired", status: 410 };
+
+    const deviceKey = `redeemed:${code}:${deviceId}`;
+    const byDevice = (await this.ctx.storage.get<number>(deviceKey)) ?? 0;
+    if (byDevice >= c.perDevice) return { ok: false, error: "already_redeemed", status: 200 };
+    if (c.maxRedemptions !== null && c.redemptions >= c.maxRedemptions) return { ok: false, error: "code_exhausted", status: 410 };
+
+    c.redemptions += 1;
+    c.devices += byDevice === 0 ? 1 : 0;
+    c.creditsGranted += c.amount;
+    c.lastRedeemedAt = now;
+    await this.ctx.storage.put({ [`code:${code}`]: c, [deviceKey]: byDevice + 1, [`redeemed_by:${deviceId}:${code}`]: byDevice + 1 });
+    return { ok: true, code: c };
+  }
+
+  // Codes a device has redeemed, with how many times (support lookups). Codes never contain ":",
+  // so a key with one left after the prefix belongs to a device whose id extends this one.
+  async redemptionsBy(deviceId: string): Promise<{ code: string; count: number }[]> {
+    const prefix = `redeemed_by:${deviceId}:`;
+    const out: { code: string; count: number }[] = [];
+    for (const [key, count] of await this.ctx.storage.list<number>({ prefix })) {
+      const code = key.slice(prefix.length);
+      if (!code.includes(":") && count > 0) out.push({ code, count });
+    }
+    return out;
+  }
+
+  // Roll back a redemption whose credits could not be added
+  async undoRedeem(code: string, deviceId: string): Promise<void> {
+    const c = await this.getCode(code);
+    const deviceKey = `redeemed:${code}:${deviceId}`;
+    const byDevice = (await this.ctx.storage.get<number>(deviceKey)) ?? 0;
+    if (!c || byDevice === 0) return;
+    c.redemptions -= 1;
+    c.devices -= byDevice === 1 ? 1 : 0;
+    c.creditsGranted -= c.amount;
+    await this.ctx.storage.put({ [`code:${code}`]: c, [deviceKey]: byDevice - 1, [`redeemed_by:${deviceId}:${code}`]: byDevice - 1 });
+  }
+}
+
+/* ================================
+   Admin support (device lookup, audit log)
+   ================================ */
+
+// Support tooling behind X-Admin-Secret (also used by the console in public/index.html).
+// Every admin action is appended to an audit log in KV, and uncaught exceptions to an error log;
+// both are keyed by inverted timestamp so a plain list() returns the newest first. The secret is
+// shared, so the acting person is whoever the optional X-Admin-Actor header names.
+
+type AdminAuditEntry = {
+  at: number;
+  actor: string;
+  action: string;
+  deviceId?: string;
+  /** Action-specific details (amounts, reasons, codes) */
+  details?: Record<string, unknown>;
+};
+
+type ServerErrorEntry = {
+  at: number;
+  method: string;
+  path: string;
+  deviceId: string | null;
+  message: string;
+  stack: string | null;
+};
+
+const ADMIN_AUDIT_TTL = 365 * 86400;
+const SERVER_ERROR_TTL = 7 * 86400;
+const ADMIN_LOG_MAX_PAGE = 100;
+const ADMIN_REASON_MAX = 500;
+// Larger adjustments go through App Store refunds or promo codes, not hand edits
+const ADMIN_ADJUSTMENT_MAX = 1000;
+
+function newestFirstKey(prefix: string, at: number): string {
+  return `${prefix}:${String(9_999_999_999_999 - at).padStart(13, "0")}:${crypto.randomUUID().slice(0, 8)}`;
+}
+
+// One page of a newest-first log (`limit` and KV `cursor` from the query string)
+async function listNewestFirst(env: Env, prefix: string, params: URLSearchParams) {
+  const limit = Math.min(Math.max(1, parseInt(params.get("limit") || "50", 10) || 50), ADMIN_LOG_MAX_PAGE);
+  const page = await env.CREDITS.list({ prefix: `${prefix}:`, limit, cursor: params.get("cursor") || undefined });
+  const entries = await Promise.all(page.keys.map(async (k) => JSON.parse((await env.CREDITS.get(k.name)) || "null")));
+  return { entries: entries.filter(Boolean), cursor: page.list_complete ? null : page.cursor };
+}
+
+// Kept for the console's "recent errors"; best effort, never throws
+async function recordServerError(env: Env, req: Request, err: any) {
+  const at = Date.now();
+  const entry: ServerErrorEntry = {
+    at,
+    method: req.method,
+    path: new URL(req.url).pathname,
+    deviceId: req.headers.get("X-Device-Id"),
+    message: String(err?.message || err).slice(0, 500),
+    stack: typeof err?.stack === "string" ? err.stack.split("\n").slice(0, 8).join("\n") : null,
+  };
+  try {
+    await env.CREDITS.put(newestFirstKey("server_error", at), JSON.stringify(entry), { expirationTtl: SERVER_ERROR_TTL });
+  } catch {}
+}
+
+function adminActor(req: Request): string {
+  return (req.headers.get("X-Admin-Actor") || "").trim().slice(0, 100) || "admin";
+}
+
+async function auditAdmin(env: Env, req: Request, action: string, entry: Omit<AdminAuditEntry, "at" | "actor" | "action"> = {}) {
+  const at = Date.now();
+  const record: AdminAuditEntry = { at, actor: adminActor(req), action, ...entry };
+  await env.CREDITS.put(newestFirstKey("admin_audit", at), JSON.stringify(record), { expirationTtl: ADMIN_AUDIT_TTL });
+  console.log(`[admin] actor=${record.actor} action=${action}${entry.deviceId ? ` device=${entry.deviceId}` : ""}`);
+}
+
+// Balance, holds, App Store transactions and grant/penalty markers for one device
+async function adminDeviceSnapshot(env: Env, deviceId: string) {
+  const { txIds, ...ledger } = await ledgerFor(env, deviceId).inspect(deviceId);
+  const transactions = await Promise.all(
+    txIds.map(async (txId) => {
+      const raw = await env.CREDITS.get(`iap:${txId}`);
+      return { txId, ...(raw ? (JSON.parse(raw) as IapRecord) : { missing: true }) };
+    })
+  );
+  const [reviewGranted, reviewPenalty, reviewBlocked, promoCodes] = await Promise.all([
+    env.CREDITS.get(`review_granted:${deviceId}`),
+    env.CREDITS.get(`review_penalty:${deviceId}`),
+    env.CREDITS.get(`review_blocked:${deviceId}`),
+    promosFor(env).redemptionsBy(deviceId),
+  ]);
+  const { entries } = await ledgerFor(env, deviceId).history(deviceId, { limit: 20 });
+  return {
+    deviceId,
+    ...ledger,
+    transactions,
+    grants: {
+      initialGranted: ledger.initialGranted,
+      reviewGranted: !!reviewGranted,
+      promoCodes,
+    },
+    penalties: {
+      failedCodes: parseInt(reviewPenalty || "0", 10),
+      blockedSince: reviewBlocked ? new Date(parseInt(reviewBlocked, 10)).toISOString() : null,
+    },
+    recentEntries: entries,
+  };
+}
+
+function parseAdjustment(body: any): { ok: true; amount: number; reason: string } | { ok: false; errors: FieldError[] } {
+  const errors: FieldError[] = [];
+  const amount = body?.amount;
+  if (!Number.isInteger(amount) || amount === 0 || Math.abs(amount) > ADMIN_ADJUSTMENT_MAX) {
+    errors.push({ field: "amount", message: `must be a non-zero integer between -${ADMIN_ADJUSTMENT_MAX} and ${ADMIN_ADJUSTMENT_MAX}` });
+  }
+  const reason = typeof body?.reason === "string" ? body.reason.trim() : "";
+  if (reason.length < 3 || reason.length > ADMIN_REASON_MAX) {
+    errors.push({ field: "reason", message: `required, 3-${ADMIN_REASON_MAX} characters` });
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, amount, reason };
+}
+
+// App Store lookups for support tickets need the Server API key (also to sign requests to a stub)
+function appStoreCredentialsMissing(env: Env): boolean {
+  return !env.APPSTORE_ISSUER_ID || !env.APPSTORE_KEY_ID || !env.APPSTORE_PRIVATE_KEY;
+}
+
+// Apple found nothing (order lookups answer 200 with status 1) vs. Apple failed
+function appStoreLookupError(res: Extract<AppStoreApiResult, { ok: false }>, notFound: string): Response {
+  if (res.status === 200 || res.status === 404) return json(404, { error: notFound, environment: res.environment });
+  return json(502, { error: "appstore_error", status: res.status, environment: res.environment, bodyPreview: res.body.slice(0, 200) });
+}
+
+// A signed transaction from Apple, decoded, with whether and where we credited it
+async function appStoreTransactionView(env: Env, jws: string) {
+  const verified = await verifyAppleJWS<AppleSignedTransactionPayload>(env, jws);
+  if (!verified.ok) return { verifyError: verified.error };
+  const tx = verified.payload;
+  const raw = await env.CREDITS.get(`iap:${tx.transactionId}`);
+  const iap = raw ? (JSON.parse(raw) as IapRecord) : null;
+  const iso = (t: number | undefined) => (t ? new Date(t).toISOString() : null);
+  return {
+    transactionId: tx.transactionId,
+    originalTransactionId: tx.originalTransactionId ?? null,
+    productId: tx.productId,
+    bundleId: tx.bundleId,
+    environment: tx.environment ?? null,
+    purchaseDate: iso(tx.purchaseDate),
+    appAccountToken: tx.appAccountToken ?? null,
+    revoked: !!tx.revocationDate,
+    credits: PRODUCT_TO_CREDITS[tx.productId] ?? 0,
+    credited: iap
+      ? { deviceId: iap.deviceId ?? null, creditsGranted: iap.creditsGranted, at: iso(iap.ts), refundedAt: iso(iap.refundedAt) }
+      : null,
+  };
+}
+
+/* ================================
+   Receipt verification (legacy, < iOS 18)
+   ================================ */
+
+// Verify an App Store receipt with Apple.
+// If `useSandbox` is true, hits the sandbox endpoint; otherwise production.
+async function verifyReceiptWithApple(
+  receiptBase64: string,
+  useSandbox: boolean
+): Promise<any> {
+  const url = useSandbox
+    ? "https://sandbox.itunes.apple.com/verifyReceipt"
+    : "https://buy.itunes.apple.com/verifyReceipt";
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({
+      "receipt-data": receiptBase64,
+      // Add "password": <shared secret> for auto-renewable subscriptions if needed.
+      "exclude-old-transactions": true,
+    }),
+  });
+
+  let data: any = null;
+  try {
+    data = await res.json();
+  } catch {
+    // leave null – handled by caller
+  }
+  return data;
+}
+
+/* ================================
+   JWS helpers (StoreKit 2 signed tx)
+   ================================ */
+
+function base64urlEncode(buf: Uint8Array): string {
+  let s = btoa(String.fromCharCode(...buf));
+  return s.replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+// Plain base64 for large payloads (audio): chunked, since spreading a big array overflows the call stack
+function base64FromBytes(bytes: Uint8Array): string {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(bin);
+}
+
+function base64urlFromString(s: string): string {
+  return btoa(s).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/g, "");
+}
+
+function bytesFromBase64url(b64url: string): Uint8Array {
+  const pad = "=".repeat((4 - (b64url.length % 4)) % 4);
+  const b64 = b64url.replace(/-/g, "+").replace(/_/g, "/") + pad;
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+function stringFromBase64url(b64url: string): string {
+  return new TextDecoder().decode(bytesFromBase64url(b64url));
+}
+
+// Accepts either raw 64-byte (r||s) or ASN.1 DER-encoded ECDSA signatures.
+// Always returns JOSE base64url of raw (r||s).
+function toJoseP256Signature(sig: Uint8Array): string {
+  // Case A: already raw (r||s), 64 bytes
+  if (sig.length === 64) {
+    return base64urlEncode(sig);
+  }
+
+  // Case B: DER-encoded SEQUENCE { r INTEGER, s INTEGER }
+  let offset = 0;
+  if (sig[offset++] !== 0x30) throw new Error("Invalid DER: no sequence");
+
+  // Read (possibly long-form) length
+  let seqLen = sig[offset++];
+  if (seqLen & 0x80) {
+    const n = seqLen & 0x7f;
+    let v = 0;
+    for (let i = 0; i < n; i++) v = (v << 8) | sig[offset++];
+    seqLen = v;
+  }
+
+  const expectInt = (label: "r" | "s") => {
+    if (sig[offset++] !== 0x02) throw new Error(`Invalid DER: expecting integer for ${label}`);
+    let len = sig[offset++];
+    if (len & 0x80) {
+      const n = len & 0x7f;
+      let v = 0;
+      for (let i = 0; i < n; i++) v = (v << 8) | sig[offset++];
+      len = v;
+    }
+    const bytes = sig.slice(offset, offset + len);
+    offset += len;
+    return bytes;
+  };
+
+  const rDer = expectInt("r");
+  const sDer = expectInt("s");
+
+  const leftPad32 = (x: Uint8Array) => {
+    // strip leading 0x00 if present then left-pad to 32 bytes
+    let i = 0;
+    while (i < x.length - 1 && x[i] === 0) i++;
+    let y = x.slice(i);
+    if (y.length > 32) throw new Error("Invalid ECDSA component length");
+    if (y.length < 32) y = new Uint8Array([...new Uint8Array(32 - y.length), ...y]);
+    return y;
+  };
+
+  const r = leftPad32(rDer);
+  const s = leftPad32(sDer);
+
+  const raw = new Uint8Array(64);
+  raw.set(r, 0);
+  raw.set(s, 32);
+  return base64urlEncode(raw);
+}
+
+
+/* ================================
+   StoreKit JWS verification (x5c → Apple Root CA G3)
+   ================================ */
+
+// SHA-256 of https://www.apple.com/certificateauthority/AppleRootCA-G3.cer
+const APPLE_ROOT_CA_G3_SHA256 = "63343abfb89a6a03ebb57e9b3f5fa7be7c4f5c756f3017b3a8c488c3653e9179";
+
+// Marker extensions Apple puts on the StoreKit signing chain
+const OID_APPLE_RECEIPT_SIGNING = "1.2.840.113635.100.6.11.1"; // leaf
+const OID_APPLE_WWDR_INTERMEDIATE = "1.2.840.113635.100.6.2.1"; // intermediate
+
+const OID_ECDSA_SHA256 = "1.2.840.10045.4.3.2";
+const OID_ECDSA_SHA384 = "1.2.840.10045.4.3.3";
+const CURVES: Record<string, { name: "P-256" | "P-384"; size: number }> = {
+  "1.2.840.10045.3.1.7": { name: "P-256", size: 32 },
+  "1.3.132.0.34": { name: "P-384", size: 48 },
+};
+
+type DerNode = { tag: number; tlv: Uint8Array; value: Uint8Array };
+
+// Read one DER TLV starting at `offset`
+function derRead(buf: Uint8Array, offset = 0): DerNode {
+  const tag = buf[offset];
+  let pos = offset + 1;
+  let len = buf[pos++];
+  if (len & 0x80) {
+    const n = len & 0x7f;
+    if (n === 0 || n > 4) throw new Error("Invalid DER: bad length");
+    len = 0;
+    for (let i = 0; i < n; i++) len = len * 256 + buf[pos++];
+  }
+  if (tag === undefined || pos + len > buf.length) throw new Error("Invalid DER: truncated");
+  return { tag, tlv: buf.subarray(offset, pos + len), value: buf.subarray(pos, pos + len) };
+}
+
+function derChildren(node: DerNode): DerNode[] {
+  const out: DerNode[] = [];
+  let offset = 0;
+  while (offset < node.value.length) {
+    const child = derRead(node.value, offset);
+    out.push(child);
+    offset += child.tlv.length;
+  }
+  return out;
+}
+
+function derOid(node: DerNode): string {
+  if (node.tag !== 0x06) throw new Error("Invalid DER: expecting OID");
+  const b = node.value;
+  const parts = [Math.floor(b[0] / 40), b[0] % 40];
+  let v = 0;
+  for (let i = 1; i < b.length; i++) {
+    v = v * 128 + (b[i] & 0x7f);
+    if (!(b[i] & 0x80)) {
+      parts.push(v);
+      v = 0;
+    }
+  }
+  return parts.join(".");
+}
+
+// UTCTime (YYMMDDHHMMSSZ) or GeneralizedTime (YYYYMMDDHHMMSSZ) → epoch ms
+function derTime(node: DerNode): number {
+  const s = new TextDecoder().decode(node.value);
+  const m = node.tag === 0x17 ? s.match(/^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/) : s.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})Z$/);
+  if (!m) throw new Error("Invalid DER: bad time");
+  let year = parseInt(m[1], 10);
+  if (node.tag === 0x17) year += year < 50 ? 2000 : 1900;
+  return Date.UTC(year, parseInt(m[2], 10) - 1, parseInt(m[3], 10), parseInt(m[4], 10), parseInt(m[5], 10), parseInt(m[6], 10));
+}
+
+type ParsedCertificate = {
+  der: Uint8Array;
+  tbs: Uint8Array;
+  issuer: Uint8Array;
+  subject: Uint8Array;
+  notBefore: number;
+  notAfter: number;
+  spki: Uint8Array;
+  curve: { name: "P-256" | "P-384"; size: number };
+  signatureAlgorithm: string;
+  signature: Uint8Array;
+  extensionOids: string[];
+};
+
+// Just enough X.509 to validate an EC certificate chain
+function parseCertificate(der: Uint8Array): ParsedCertificate {
+  const [tbsNode, sigAlgNode, sigNode] = derChildren(derRead(der));
+  if (!tbsNode || !sigAlgNode || sigNode?.tag !== 0x03) throw new Error("Invalid certificate");
+
+  const tbs = derChildren(tbsNode);
+  let i = tbs[0]?.tag === 0xa0 ? 1 : 0; // optional [0] version
+  i++; // serialNumber
+  i++; // signature (repeated in outer signatureAlgorithm)
+  const issuer = tbs[i++];
+  const validity = derChildren(tbs[i++]);
+  const subject = tbs[i++];
+  const spki = tbs[i++];
+  if (!issuer || !subject || !spki || validity.length !== 2) throw new Error("Invalid certificate");
+
+  const [spkiAlg] = derChildren(spki);
+  const curveOid = derOid(derChildren(spkiAlg)[1]);
+  const curve = CURVES[curveOid];
+  if (!curve) throw new Error(`Unsupported curve ${curveOid}`);
+
+  const extensionOids: string[] = [];
+  const extWrapper = tbs.slice(i).find((n) => n.tag === 0xa3);
+  if (extWrapper) {
+    for (const ext of derChildren(derChildren(extWrapper)[0])) {
+      extensionOids.push(derOid(derChildren(ext)[0]));
+    }
+  }
+
+  return {
+    der,
+    tbs: tbsNode.tlv,
+    issuer: issuer.tlv,
+    subject: subject.tlv,
+    notBefore: derTime(validity[0]),
+    notAfter: derTime(validity[1]),
+    spki: spki.tlv,
+    curve,
+    signatureAlgorithm: derOid(derChildren(sigAlgNode)[0]),
+    signature: sigNode.value.subarray(1), // skip unused-bits byte
+    extensionOids,
+  };
+}
+
+// ASN.1 DER ECDSA signature → raw (r||s) as WebCrypto expects
+function derToRawEcdsaSignature(sig: Uint8Array, size: number): Uint8Array {
+  const [r, s] = derChildren(derRead(sig));
+  if (r?.tag !== 0x02 || s?.tag !== 0x02) throw new Error("Invalid DER: bad ECDSA signature");
+  const raw = new Uint8Array(size * 2);
+  const put = (x: Uint8Array, at: number) => {
+    let start = 0;
+    while (start < x.length - 1 && x[start] === 0) start++;
+    const v = x.subarray(start);
+    if (v.length > size) throw new Error("Invalid ECDSA component length");
+    raw.set(v, at + size - v.length);
+  };
+  put(r.value, 0);
+  put(s.value, size);
+  return raw;
+}
+
+// Verify that `cert` was signed by `issuer`
+async function verifyCertificateSignature(cert: ParsedCertificate, issuer: ParsedCertificate): Promise<boolean> {
+  const hash =
+    cert.signatureAlgorithm === OID_ECDSA_SHA384 ? "SHA-384" : cert.signatureAlgorithm === OID_ECDSA_SHA256 ? "SHA-256" : null;
+  if (!hash) return false;
+  const key = await crypto.subtle.importKey("spki", issuer.spki, { name: "ECDSA", namedCurve: issuer.curve.name }, false, ["verify"]);
+  return crypto.subtle.verify(
+    { name: "ECDSA", hash },
+    key,
+    derToRawEcdsaSignature(cert.signature, issuer.curve.size),
+    cert.tbs
+  );
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return Array.from(digest, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Verify a StoreKit/App Store Server JWS: x5c chain up to a pinned Apple root, Apple's marker
+// OIDs, certificate validity at the payload's signedDate, and the ES256 signature itself.
+async function verifyAppleJWS<T>(env: Env, jws: string): Promise<{ ok: true; payload: T } | { ok: false; error: string }> {
+  try {
+    const parts = String(jws).split(".");
+    if (parts.length !== 3) return { ok: false, error: "bad_jws_parts" };
+
+    let header: { alg?: string; x5c?: string[] };
+    let payload: any;
+    try {
+      header = JSON.parse(stringFromBase64url(parts[0]));
+      payload = JSON.parse(stringFromBase64url(parts[1]));
+    } catch {
+      return { ok: false, error: "bad_jws_json" };
+    }
+    if (header.alg !== "ES256") return { ok: false, error: "unsupported_alg" };
+    if (!Array.isArray(header.x5c) || header.x5c.length !== 3) return { ok: false, error: "bad_x5c" };
+
+    const [leaf, intermediate, root] = header.x5c.map((c) => parseCertificate(Uint8Array.from(atob(c), (ch) => ch.charCodeAt(0))));
+
+    const trusted = [
+      APPLE_ROOT_CA_G3_SHA256,
+      ...(env.APPSTORE_EXTRA_ROOT_SHA256 || "").split(",").map((f) => f.trim().toLowerCase()).filter(Boolean),
+    ];
+    if (!trusted.includes(await sha256Hex(root.der))) return { ok: false, error: "untrusted_root" };
+
+    if (!bytesEqual(leaf.issuer, intermediate.subject) || !bytesEqual(intermediate.issuer, root.subject)) {
+      return { ok: false, error: "chain_broken" };
+    }
+    if (!(await verifyCertificateSignature(intermediate, root)) || !(await verifyCertificateSignature(leaf, intermediate))) {
+      return { ok: false, error: "chain_signature_invalid" };
+    }
+    if (!leaf.extensionOids.includes(OID_APPLE_RECEIPT_SIGNING) || !intermediate.extensionOids.includes(OID_APPLE_WWDR_INTERMEDIATE)) {
+      return { ok: false, error: "missing_apple_oid" };
+    }
+
+    // Apple signs with certificates valid at signing time; judge validity then, not now
+    const at = typeof payload?.signedDate === "number" ? payload.signedDate : Date.now();
+    for (const cert of [leaf, intermediate, root]) {
+      if (at < cert.notBefore || at > cert.notAfter) return { ok: false, error: "certificate_expired" };
+    }
+
+    if (leaf.curve.name !== "P-256") return { ok: false, error: "bad_leaf_key" };
+    const leafKey = await crypto.subtle.importKey("spki", leaf.spki, { name: "ECDSA", namedCurve: "P-256" }, false, ["verify"]);
+    const valid = await crypto.subtle.verify(
+      { name: "ECDSA", hash: "SHA-256" },
+      leafKey,
+      bytesFromBase64url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+    );
+    if (!valid) return { ok: false, error: "signature_invalid" };
+
+    return { ok: true, payload: payload as T };
+  } catch (e: any) {
+    console.log(`[jws] verification_error ${String(e?.message || e)}`);
+    return { ok: false, error: "bad_certificate" };
+  }
+}
+
+/* ================================
+   App Store Server API auth (ES256 JWT)
+   ================================ */
+
+// Import EC private key (PKCS8 from .p8 PEM) into WebCrypto
+async function importAppleECPrivateKey(pem: string): Promise<CryptoKey> {
+  // Be tolerant of secrets that include literal "\n"
+  const normalized = pem.replace(/\\n/g, "\n").trim();
+  const clean = normalized
+    .replace(/-----BEGIN [^-]+-----/g, "")
+    .replace(/-----END [^-]+-----/g, "")
+    .replace(/\s+/g, "")
+    .trim();
+
+  const binary = Uint8Array.from(atob(clean), (c) => c.charCodeAt(0));
+  return crypto.subtle.importKey(
+    "pkcs8",
+    binary.buffer,
+    { name: "ECDSA", namedCurve: "P-256" },
+    false,
+    ["sign"]
+  );
+}
+
+async function signES256JWT(env: Env): Promise<string> {
+  const header = {
+    alg: "ES256",
+    kid: env.APPSTORE_KEY_ID,
+    typ: "JWT",
+  };
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    iss: env.APPSTORE_ISSUER_ID,
+    iat: now,
+    exp: now + 180,           // short-lived
+    aud: "appstoreconnect-v1",
+    bid: APP_BUNDLE_ID,       // <- REQUIRED for StoreKit Server API
+  };
+
+  const encHeader = base64urlFromString(JSON.stringify(header));
+  const encPayload = base64urlFromString(JSON.stringify(payload));
+  const signingInput = `${encHeader}.${encPayload}`;
+
+  const key = await importAppleECPrivateKey(env.APPSTORE_PRIVATE_KEY);
+  const sigDER = new Uint8Array(
+    await crypto.subtle.sign(
+      { name: "ECDSA", hash: "SHA-256" },
+      key,
+      new TextEncoder().encode(signingInput)
+    )
+  );
+
+  const sigJOSE = toJoseP256Signature(sigDER);
+  return `${signingInput}.${sigJOSE}`;
+}
+
+
+type AppStoreApiEnvironment = "PROD" | "SANDBOX" | "STUB";
+
+type AppStoreApiResult =
+  | { ok: true; json: any; environment: AppStoreApiEnvironment }
+  | { ok: false; status: number; body: string; environment: AppStoreApiEnvironment };
+
+// Production first, then sandbox; a configured stub replaces both
+function appStoreApiBases(env: Env): { base: string; environment: AppStoreApiEnvironment }[] {
+  const stub = (env.APPSTORE_API_BASE_URL || "").trim().replace(/\/+$/, "");
+  if (stub) return [{ base: stub, environment: "STUB" }];
+  return [
+    { base: "https://api.storekit.itunes.apple.com", environment: "PROD" },
+    { base: "https://api.storekit-sandbox.itunes.apple.com", environment: "SANDBOX" },
+  ];
+}
+
+// GET an App Store Server API path in each environment (or `only` one) until one answers with `found(json)`
+async function callAppStoreApi(
+  env: Env,
+  path: string,
+  found: (json: any) => boolean,
+  only?: AppStoreApiEnvironment
+): Promise<AppStoreApiResult> {
+  let last: AppStoreApiResult | null = null;
+  for (const { base, environment } of appStoreApiBases(env).filter((b) => !only || b.environment === only)) {
+    const jwt = await signES256JWT(env);
+    const r = await fetch(`${base}${path}`, {
+      headers: {
+        Authorization: `Bearer ${jwt}`,
+        Accept: "application/json",
+      },
+    });
+
+    const text = await r.text();
+    let json: any = null;
+    try {
+      json = JSON.parse(text);
+    } catch {}
+    if (r.ok && json && found(json)) return { ok: true, json, environment };
+    // OK but missing payload – treat as failure with details
+    last = { ok: false, status: r.status, body: text || "<empty>", environment };
+  }
+  // Prefer the last (sandbox) error when every environment failed
+  return last!;
+}
+
+// Call App Store Server API: Get Transaction Info (try prod, then sandbox) with detailed diagnostics.
+async function getTransactionInfoFromApple(env: Env, transactionId: string): Promise<AppStoreApiResult> {
+  return callAppStoreApi(env, `/inApps/v1/transactions/${encodeURIComponent(transactionId)}`, (json) => !!json?.signedTransactionInfo);
+}
+
+// Look Up Order ID: the transactions of the order number in Apple's receipt email (status 0 = valid)
+async function lookUpOrderFromApple(env: Env, orderId: string): Promise<AppStoreApiResult> {
+  return callAppStoreApi(env, `/inApps/v1/lookup/${encodeURIComponent(orderId)}`, (json) => json?.status === 0);
+}
+
+// Get Transaction History for the customer behind `transactionId`, following `revision` pages
+const APPSTORE_HISTORY_MAX_PAGES = 5;
+
+async function getTransactionHistoryFromApple(
+  env: Env,
+  transactionId: string
+): Promise<{ ok: true; signedTransactions: string[]; hasMore: boolean; environment: AppStoreApiEnvironment } | Extract<AppStoreApiResult, { ok: false }>> {
+  const signedTransactions: string[] = [];
+  let revision = "";
+  let environment: AppStoreApiEnvironment | null = null;
+  for (let page = 0; page < APPSTORE_HISTORY_MAX_PAGES; page++) {
+    const query = revision ? `?revision=${encodeURIComponent(revision)}` : "";
+    const path = `/inApps/v2/history/${encodeURIComponent(transactionId)}${query}`;
+    // Later pages come from the environment that answered the first
+    const res = await callAppStoreApi(env, path, (json) => Array.isArray(json?.signedTransactions), environment ?? undefined);
+    if (!res.ok) return res;
+    environment ??= res.environment;
+    signedTransactions.push(...res.json.signedTransactions);
+    if (!res.json.hasMore || !res.json.revision) return { ok: true, signedTransactions, hasMore: false, environment };
+    revision = res.json.revision;
+  }
+  return { ok: true, signedTransactions, hasMore: true, environment: environment! };
+}
+
+/* ================================
+   Types for JWS payloads (client + Apple)
+   ================================ */
+
+// From Apple response, we parse `signedTransactionInfo` JWS payload to confirm product/bundle.
+type AppleSignedTransactionPayload = {
+  transactionId: string;
   bundleId: string;
   productId: string;
+  environment?: "Sandbox" | "Production";
+  signedDate?: number;
+  appAccountToken?: string;
+  originalTransactionId?: string;
+  purchaseDate?: number;
+  revocationDate?: number;
+  revocationReason?: number;
   // plus many others…
 };
 
+// Decoded `signedPayload` of an App Store Server Notification V2
+type AppStoreNotificationPayload = {
+  notificationType: string; // e.g. "REFUND", "REVOKE", "CONSUMPTION_REQUEST"
+  subtype?: string;
+  notificationUUID: string;
+  signedDate?: number;
+  data?: {
+    bundleId?: string;
+    environment?: "Sandbox" | "Production";
+    signedTransactionInfo?: string;
+  };
+};
+
+// What we store under `iap:<txId>` once a transaction has been credited
+type IapRecord = {
+  productId: string;
+  creditsGranted: number;
+  ts: number;
+  /** Device that received the credits */
+  deviceId?: string;
+  appAccountToken?: string;
+  refundedAt?: number;
+  creditsClawedBack?: number;
+};
+
+// Credit a purchase to a device at most once. The ledger claims `iap_purchase:<txId>` in the same
+// step as the credits, so retried or concurrent redeems cannot apply it twice; the `iap:` record is
+// written afterwards as the lookup for support and refunds, and only ever read as a cache.
+async function creditPurchase(
+  env: Env,
+  deviceId: string,
+  txId: string,
+  record: { productId: string; creditsGranted: number; appAccountToken?: string }
+): Promise<{ already: boolean; balance: number }> {
+  const claimed = await ledgerFor(env, deviceId).addCreditsOnce(deviceId, `iap_purchase:${txId}`, record.creditsGranted, "iap_purchase", {
+    txId,
+  });
+  if (claimed.already) return claimed;
+  await env.CREDITS.put(`iap:${txId}`, JSON.stringify({ ...record, ts: Date.now(), deviceId } satisfies IapRecord));
+  return claimed;
+}
+
+/* ================================
+   Scheduled sweeper (expired holds)
+   ================================ */
+
+// Keep the last report under a fixed key and a dated copy for a month
+const SWEEP_REPORT_TTL = 30 * 86400;
+
+// Walk every device with pending holds (indexed under `pending_device:<id>` by the DeviceLedger),
+// release holds whose TTL passed and rebuild reserved totals. Writes a report of what changed.
+async function sweepExpiredHolds(env: Env, now: number) {
+  const startedAt = Date.now();
+  const fixed: SweepResult[] = [];
+  let devicesScanned = 0;
+  let holdsReleased = 0;
+  let creditsReleased = 0;
+  let errors = 0;
+
+  let cursor: string | undefined;
+  do {
+    const page = await env.CREDITS.list({ prefix: "pending_device:", cursor });
+    for (const { name } of page.keys) {
+      const deviceId = name.slice("pending_device:".length);
+      devicesScanned++;
+      try {
+        const res = await ledgerFor(env, deviceId).sweep(deviceId, now);
+        if (res.released.length || res.reservedBefore !== res.reservedAfter) {
+          fixed.push(res);
+          holdsReleased += res.released.length;
+          creditsReleased += res.released.reduce((sum, h) => sum + h.amount, 0);
+        }
+      } catch (e: any) {
+        errors++;
+        console.error(`[sweep] device=${deviceId} failed: ${String(e?.message || e)}`);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  const report = {
+    startedAt,
+    finishedAt: Date.now(),
+    now,
+    devicesScanned,
+    devicesFixed: fixed.length,
+    holdsReleased,
+    creditsReleased,
+    errors,
+    fixed,
+  };
+  const body = JSON.stringify(report);
+  await env.CREDITS.put(`sweep_report:${new Date(startedAt).toISOString()}`, body, { expirationTtl: SWEEP_REPORT_TTL });
+  await env.CREDITS.put("sweep_report:latest", body);
+
+  console.log(
+    `[sweep] scanned=${devicesScanned} fixed=${fixed.length} holdsReleased=${holdsReleased} creditsReleased=${creditsReleased} errors=${errors}`
+  );
+  return report;
+}
+
+/* ================================
+   App Store Server Notifications V2
+   ================================ */
+
+// Keep handled notifications around for support lookups
+const NOTIFICATION_RECORD_TTL = 180 * 86400;
+
+type NotificationRecord = {
+  notificationUUID: string;
+  notificationType: string;
+  subtype?: string;
+  environment?: string;
+  txId?: string;
+  productId?: string;
+  deviceId?: string;
+  action: "clawed_back" | "already_refunded" | "unknown_transaction" | "unknown_device" | "recorded" | "ignored_bundle";
+  creditsClawedBack?: number;
+  receivedAt: number;
+};
+
+// Apply one decoded notification. REFUND/REVOKE claw back the credits granted for the
+// transaction (never below zero); everything else is only recorded.
+async function handleAppStoreNotification(env: Env, payload: AppStoreNotificationPayload): Promise<NotificationRecord> {
+  const record: NotificationRecord = {
+    notificationUUID: payload.notificationUUID,
+    notificationType: payload.notificationType,
+    subtype: payload.subtype,
+    environment: payload.data?.environment,
+    action: "recorded",
+    receivedAt: Date.now(),
+  };
+
+  if (payload.data?.bundleId && payload.data.bundleId !== APP_BUNDLE_ID) {
+    record.action = "ignored_bundle";
+    return record;
+  }
+
+  let tx: AppleSignedTransactionPayload | null = null;
+  if (payload.data?.signedTransactionInfo) {
+    const verified = await verifyAppleJWS<AppleSignedTransactionPayload>(env, payload.data.signedTransactionInfo);
+    tx = verified.ok ? verified.payload : null;
+  }
+  record.txId = tx?.transactionId;
+  record.productId = tx?.productId;
+
+  if (payload.notificationType !== "REFUND" && payload.notificationType !== "REVOKE") {
+    return record;
+  }
+  if (!tx?.transactionId) {
+    record.action = "unknown_transaction";
+    return record;
+  }
+
+  const txKey = `iap:${tx.transactionId}`;
+  const raw = await env.CREDITS.get(txKey);
+  if (!raw) {
+    record.action = "unknown_transaction";
+    return record;
+  }
+  const iap = JSON.parse(raw) as IapRecord;
+  record.deviceId = iap.deviceId;
+  if (iap.refundedAt) {
+    record.action = "already_refunded";
+    return record;
+  }
+  if (!iap.deviceId) {
+    // Redeemed before iap: records stored the device; support has to resolve it by hand
+    record.action = "unknown_device";
+    return record;
+  }
+
+  // The ledger keeps its own refund marker: Apple may deliver REFUND and REVOKE at the same time
+  const res = await ledgerFor(env, iap.deviceId).addCreditsOnce(iap.deviceId, `iap_refund:${tx.transactionId}`, -iap.creditsGranted, "iap_refund", {
+    txId: tx.transactionId,
+  });
+  if (res.already) {
+    record.action = "already_refunded";
+    return record;
+  }
+  const clawedBack = -res.applied;
+
+  iap.refundedAt = Date.now();
+  iap.creditsClawedBack = clawedBack;
+  await env.CREDITS.put(txKey, JSON.stringify(iap));
+
+  record.action = "clawed_back";
+  record.creditsClawedBack = clawedBack;
+  console.log(
+    `[appstore-notify] ${payload.notificationType} txId=${tx.transactionId} device=${iap.deviceId} granted=${iap.creditsGranted} clawedBack=${clawedBack}`
+  );
+  return record;
+}
+
 /* ================================
    Handler
    ================================ */
 
 export default {
-  async fetch(req: Request, env: Env): Promise<Response> {
+  async fetch(req: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     try {
       const url = new URL(req.url);
       const path = url.pathname;
 
-      // --- Health check ---
-      if (req.method === "GET" && path === "/health") {
-        return json(200, { ok: true, ts: Date.now() });
-      }
+      // --- Health check ---
+      if (req.method === "GET" && path === "/health") {
+        return json(200, { ok: true, ts: Date.now() });
+      }
+
+      // --- Credits: balance ---
+      if (req.method === "GET" && path === "/credits/balance") {
+        const deviceId = requireDeviceId(req);
+        await ensureInitialGrant(env, deviceId);
+
+        const { balance, reserved, available } = await ledgerFor(env, deviceId).getState(deviceId);
+        console.log(`[balance] device=${deviceId} balance=${balance} reserved=${reserved} available=${available}`);
+        return json(200, { balance, reserved, available });
+      }
+
+      // --- Credits: appAccountToken to attach to StoreKit purchases ---
+      if (req.method === "GET" && path === "/credits/account-token") {
+        const deviceId = requireDeviceId(req);
+        const appAccountToken = await ledgerFor(env, deviceId).appAccountToken(deviceId);
+        return json(200, { appAccountToken });
+      }
+
+      // --- Credits: ledger history (newest first, paginated) ---
+      if (req.method === "GET" && path === "/credits/history") {
+        const deviceId = requireDeviceId(req);
+        await ensureInitialGrant(env, deviceId);
+
+        const limit = parseInt(url.searchParams.get("limit") || "50", 10) || 50;
+        const beforeRaw = url.searchParams.get("before");
+        const before = beforeRaw ? parseInt(beforeRaw, 10) : undefined;
+        if (before !== undefined && !(before > 0)) {
+          return json(400, { error: "bad_cursor" });
+        }
+
+        const page = await ledgerFor(env, deviceId).history(deviceId, { limit, before });
+        return json(200, { ok: true, ...page });
+      }
+
+      // --- Credits: redeem a promo/gift code (review-grant is the legacy path for the App Review code) ---
+      if (req.method === "POST" && (path === "/credits/redeem-code" || path === "/credits/review-grant")) {
+        const deviceId = requireDeviceId(req);
+
+        // Rate limit: 10 attempts per device per hour (prevent brute force)
+        const rateLimit = await checkRateLimit(env, `review:${deviceId}`, 10, 3600);
+        if (!rateLimit.allowed) {
+          console.log(`[redeem-code] rate_limited device=${deviceId}`);
+          return json(429, { error: "rate_limit_exceeded", message: "Too many attempts, try again later" });
+        }
+        const body = await parseJSON<{ code?: string }>(req);
+        if (await codeAttemptsBlocked(env, deviceId)) {
+          return json(403, { error: "blocked", message: "Temporarily blocked due to repeated failures" });
+        }
+
+        const code = normalizePromoCode(body.code);
+        const builtIn = reviewPromoCode(env);
+        console.log(`[redeem-code] device=${deviceId} codeProvided=${!!code}`);
+
+        // Devices granted the review code before it became a promo code keep their one grant
+        const legacyGranted = builtIn?.code === code && !!(await env.CREDITS.get(`review_granted:${deviceId}`));
+        const res: PromoRedeemResult = !code
+          ? { ok: false, error: "bad_code", status: 403 }
+          : legacyGranted
+            ? { ok: false, error: "already_redeemed", status: 200 }
+            : await promosFor(env).redeem(code, deviceId, Date.now(), builtIn);
+
+        if (!res.ok) {
+          if (res.error === "already_redeemed") {
+            const { balance } = await ledgerFor(env, deviceId).getState(deviceId);
+            console.log(`[redeem-code] already_redeemed device=${deviceId} code=${code} balance=${balance}`);
+            return json(200, { ok: true, granted: 0, already: true, balance });
+          }
+          console.log(`[redeem-code] ${res.error} device=${deviceId}`);
+          if (res.error === "bad_code" && (await recordBadCode(env, deviceId))) {
+            return json(403, { error: "too_many_failures", message: "Blocked for 24 hours due to repeated failures" });
+          }
+          return json(res.status, { error: res.error });
+        }
+
+        const granted = res.code.amount;
+        let balance: number;
+        try {
+          const type = res.code.code === builtIn?.code ? "review_grant" : "promo_code";
+          ({ balance } = await ledgerFor(env, deviceId).addCredits(deviceId, granted, type, { code: res.code.code }));
+        } catch (err) {
+          await promosFor(env).undoRedeem(res.code.code, deviceId);
+          throw err;
+        }
+
+        // Clear penalty on success
+        await env.CREDITS.delete(`review_penalty:${deviceId}`);
+
+        console.log(`[redeem-code] granted device=${deviceId} code=${res.code.code} campaign=${res.code.campaign} +${granted} newBalance=${balance}`);
+        return json(200, { ok: true, granted, balance, campaign: res.code.campaign });
+      }
+
+      // --- Admin: promo codes (create one, generate a batch, list with stats, enable/disable) ---
+      if (req.method === "POST" && path === "/admin/promo-codes") {
+        requireAdminAuth(req, env);
+        const body = await parseJSON<any>(req);
+        const parsed = parsePromoTemplate(body);
+        const code = body?.code === undefined ? generatePromoCode("") : normalizePromoCode(body.code);
+        const errors = parsed.ok ? [] : [...parsed.errors];
+        if (!PROMO_CODE_PATTERN.test(code)) errors.unshift({ field: "code", message: "must be 4-40 letters, digits or -" });
+        if (!parsed.ok || errors.length) return json(400, { error: "invalid_request", errors });
+
+        const res = await promosFor(env).create(code, parsed.template);
+        if (!res.ok) return json(res.status, { error: res.error });
+        await auditAdmin(env, req, "promo_code.create", { details: { code, ...parsed.template } });
+        return json(201, { ok: true, code: promoCodeView(res.code) });
+      }
+
+      if (req.method === "POST" && path === "/admin/promo-codes/batch") {
+        requireAdminAuth(req, env);
+        const body = await parseJSON<any>(req);
+        // Batch codes are single-use gift codes
+        const parsed = parsePromoTemplate({ ...body, maxRedemptions: 1, perDevice: 1 });
+        const errors = parsed.ok ? [] : [...parsed.errors];
+        if (!Number.isInteger(body?.count) || body.count < 1 || body.count > PROMO_BATCH_MAX) {
+          errors.push({ field: "count", message: `must be an integer 1-${PROMO_BATCH_MAX}` });
+        }
+        const prefix = normalizePromoCode(body?.prefix ?? "");
+        if (prefix && !/^[A-Z0-9]{1,12}$/.test(prefix)) errors.push({ field: "prefix", message: "must be 1-12 letters or digits" });
+        if (!parsed.ok || errors.length) return json(400, { error: "invalid_request", errors });
+
+        const { batchId, codes } = await promosFor(env).createBatch(body.count, prefix, parsed.template);
+        await auditAdmin(env, req, "promo_code.batch", { details: { batchId, count: codes.length, prefix, ...parsed.template } });
+        return json(201, { ok: true, batchId, codes: codes.map((c) => c.code) });
+      }
+
+      if (req.method === "GET" && path === "/admin/promo-codes") {
+        requireAdminAuth(req, env);
+        const campaign = url.searchParams.get("campaign") || undefined;
+        const batchId = url.searchParams.get("batchId") || undefined;
+        const codes = await promosFor(env).list({ campaign, batchId });
+        return json(200, {
+          ok: true,
+          totals: {
+            codes: codes.length,
+            redemptions: codes.reduce((n, c) => n + c.redemptions, 0),
+            creditsGranted: codes.reduce((n, c) => n + c.creditsGranted, 0),
+          },
+          codes: codes.map(promoCodeView),
+        });
+      }
+
+      const promoMatch = path.match(/^\/admin\/promo-codes\/([^/]+)(?:\/(enable|disable))?$/);
+      if (promoMatch && promoMatch[1] !== "batch") {
+        requireAdminAuth(req, env);
+        const code = normalizePromoCode(decodeURIComponent(promoMatch[1]));
+        if (req.method === "GET" && !promoMatch[2]) {
+          const c = await promosFor(env).get(code);
+          return c ? json(200, { ok: true, code: promoCodeView(c) }) : json(404, { error: "code_not_found" });
+        }
+        if (req.method === "POST" && promoMatch[2]) {
+          const c = await promosFor(env).setDisabled(code, promoMatch[2] === "disable");
+          if (!c) return json(404, { error: "code_not_found" });
+          await auditAdmin(env, req, `promo_code.${promoMatch[2]}`, { details: { code } });
+          return json(200, { ok: true, code: promoCodeView(c) });
+        }
+      }
+
+      // --- Admin: find a device by its id or by an App Store transaction id it redeemed ---
+      if (req.method === "GET" && path === "/admin/devices") {
+        requireAdminAuth(req, env);
+        const q = (url.searchParams.get("q") || "").trim();
+        if (!q) return json(400, { error: "missing_query" });
+        const matches: { deviceId: string; via: "deviceId" | "transactionId" }[] = [];
+        const iapRaw = await env.CREDITS.get(`iap:${q}`);
+        const iapDevice = iapRaw ? (JSON.parse(iapRaw) as IapRecord).deviceId : undefined;
+        if (iapDevice) matches.push({ deviceId: iapDevice, via: "transactionId" });
+        // Device ids are client-generated and not indexed, so any other query is taken as one
+        if (!iapRaw) matches.push({ deviceId: q, via: "deviceId" });
+        return json(200, { ok: true, matches });
+      }
+
+      // --- Admin: device lookup for support (balance, holds, transactions, grant markers) ---
+      const adminDeviceMatch = path.match(/^\/admin\/devices\/([^/]+)(\/.*)?$/);
+      if (adminDeviceMatch) {
+        requireAdminAuth(req, env);
+        const deviceId = decodeURIComponent(adminDeviceMatch[1]);
+        const action = adminDeviceMatch[2] ?? "";
+
+        if (req.method === "GET" && action === "") {
+          const snapshot = await adminDeviceSnapshot(env, deviceId);
+          await auditAdmin(env, req, "device.lookup", { deviceId });
+          return json(200, { ok: true, device: snapshot });
+        }
+
+        // Full ledger, newest first (same paging as /credits/history)
+        if (req.method === "GET" && action === "/history") {
+          const limit = parseInt(url.searchParams.get("limit") || "50", 10) || 50;
+          const beforeRaw = url.searchParams.get("before");
+          const before = beforeRaw ? parseInt(beforeRaw, 10) : undefined;
+          if (before !== undefined && !(before > 0)) return json(400, { error: "bad_cursor" });
+          const page = await ledgerFor(env, deviceId).history(deviceId, { limit, before });
+          return json(200, { ok: true, ...page });
+        }
+
+        // Signed credit adjustment; the reason is kept on the ledger entry and in the audit log
+        if (req.method === "POST" && action === "/adjust") {
+          const parsed = parseAdjustment(await parseJSON<any>(req));
+          if (!parsed.ok) return json(400, { error: "invalid_request", errors: parsed.errors });
+          const { balance, applied } = await ledgerFor(env, deviceId).addCredits(deviceId, parsed.amount, "admin_adjustment", {
+            reason: parsed.reason,
+          });
+          await auditAdmin(env, req, "device.adjust", {
+            deviceId,
+            details: { requested: parsed.amount, applied, reason: parsed.reason, balance },
+          });
+          return json(200, { ok: true, applied, balance });
+        }
+
+        // Force-cancel a stuck hold: releases its reservation without charging
+        const holdMatch = action.match(/^\/holds\/([^/]+)\/cancel$/);
+        if (req.method === "POST" && holdMatch) {
+          const jobId = decodeURIComponent(holdMatch[1]);
+          const ledger = ledgerFor(env, deviceId);
+          const hold = await ledger.getHold(deviceId, jobId);
+          if (!hold) return json(404, { error: "hold_not_found" });
+          if (hold.state !== "pending") return json(409, { error: "hold_not_pending", state: hold.state });
+          const res = await ledger.cancelJob(deviceId, jobId);
+          if (!res.ok) return json(res.status, { error: res.error });
+          const { reserved } = await ledger.getState(deviceId);
+          await auditAdmin(env, req, "device.cancel_hold", { deviceId, details: { jobId, amount: hold.amount } });
+          return json(200, { ok: true, released: hold.amount, balance: res.balance, reserved });
+        }
 
-      // --- Credits: balance ---
-      if (req.method === "GET" && path === "/credits/balance") {
-        const deviceId = requireDeviceId(req);
-        await ensureInitialGrant(env, deviceId);
+        // Clear failed-code penalties and the 24h block
+        if (req.method === "POST" && action === "/reset-penalties") {
+          await env.CREDITS.delete(`review_penalty:${deviceId}`);
+          await env.CREDITS.delete(`review_blocked:${deviceId}`);
+          await auditAdmin(env, req, "device.reset_penalties", { deviceId });
+          return json(200, { ok: true });
+        }
 
-        const balance = await getBalance(env, deviceId);
-        const reservedRaw = await env.CREDITS.get(`device:${deviceId}:reserved`);
-        const reserved = reservedRaw ? parseInt(reservedRaw, 10) || 0 : 0;
-        console.log(
-          `[balance] device=${deviceId} balance=${balance} reserved=${reserved} available=${Math.max(
-            0,
-            balance - reserved
-          )}`
-        );
-        return json(200, {
-          balance,
-          reserved,
-          available: Math.max(0, balance - reserved),
-        });
+        return json(404, { error: "not_found" });
       }
 
-      // --- Credits: one-time review grant (self-serve for App Review) ---
-      if (req.method === "POST" && path === "/credits/review-grant") {
-        const deviceId = requireDeviceId(req);
-        
-        // Rate limit: 3 attempts per device per hour (prevent brute force)
-        const rateLimit = await checkRateLimit(env, `review:${deviceId}`, 3, 3600);
-        if (!rateLimit.allowed) {
-          console.log(`[review-grant] rate_limited device=${deviceId}`);
-          return json(429, { error: "rate_limit_exceeded", message: "Too many attempts, try again later" });
-        }
-        
-        const body = await parseJSON<{ code?: string }>(req);
-        const provided = (body.code || "").trim();
-        const expected = (env.REVIEW_CODE || "").trim();
-        console.log(`[review-grant] device=${deviceId} codeProvided=${!!provided}`);
-
-        if (!provided || !expected || provided !== expected) {
-          console.log(`[review-grant] bad_code device=${deviceId}`);
-          // Add failed attempt penalty
-          const penaltyKey = `review_penalty:${deviceId}`;
-          const failCount = parseInt((await env.CREDITS.get(penaltyKey)) || "0", 10);
-          await env.CREDITS.put(penaltyKey, String(failCount + 1), { expirationTtl: 3600 });
-          
-          // After 5 failed attempts, block for 24 hours
-          if (failCount >= 4) {
-            await env.CREDITS.put(`review_blocked:${deviceId}`, String(Date.now()), { expirationTtl: 86400 });
-            return json(403, { error: "too_many_failures", message: "Blocked for 24 hours due to repeated failures" });
-          }
-          
-          return json(403, { error: "bad_code" });
+      // --- Admin: App Store lookups for support (order id from the receipt email, or a transaction id) ---
+      const appStoreMatch = path.match(/^\/admin\/appstore\/(orders|transactions)\/([^/]+)(\/credit)?$/);
+      if (appStoreMatch) {
+        requireAdminAuth(req, env);
+        if (appStoreCredentialsMissing(env)) return json(503, { error: "missing_credentials" });
+        const [, kind, rawId, credit] = appStoreMatch;
+        const id = decodeURIComponent(rawId);
+
+        if (req.method === "GET" && kind === "orders" && !credit) {
+          const res = await lookUpOrderFromApple(env, id);
+          if (!res.ok) return appStoreLookupError(res, "order_not_found");
+          const transactions = await Promise.all((res.json.signedTransactions ?? []).map((jws: string) => appStoreTransactionView(env, jws)));
+          await auditAdmin(env, req, "appstore.lookup_order", { details: { orderId: id, environment: res.environment } });
+          return json(200, { ok: true, orderId: id, environment: res.environment, transactions });
         }
 
-        // Check if blocked
-        if (await env.CREDITS.get(`review_blocked:${deviceId}`)) {
-          return json(403, { error: "blocked", message: "Temporarily blocked due to repeated failures" });
+        // Every transaction of the customer who made `id` (Apple's transaction history)
+        if (req.method === "GET" && kind === "transactions" && !credit) {
+          const res = await getTransactionHistoryFromApple(env, id);
+          if (!res.ok) return appStoreLookupError(res, "transaction_not_found");
+          const transactions = await Promise.all(res.signedTransactions.map((jws) => appStoreTransactionView(env, jws)));
+          await auditAdmin(env, req, "appstore.transaction_history", { details: { transactionId: id, environment: res.environment } });
+          return json(200, { ok: true, transactionId: id, environment: res.environment, hasMore: res.hasMore, transactions });
         }
 
-        const onceKey = `review_granted:${deviceId}`;
-        if (await env.CREDITS.get(onceKey)) {
-          const balance = await getBalance(env, deviceId);
-          console.log(`[review-grant] already_granted device=${deviceId} balance=${balance}`);
-          return json(200, { ok: true, granted: 0, already: true, balance });
+        // Credit a purchase the app never redeemed. Same checks as /credits/redeem-signed, except that
+        // purchases without an appAccountToken (older app versions) go to the device support names.
+        // Sandbox (TestFlight, review) purchases need `allowSandbox: true`.
+        if (req.method === "POST" && kind === "transactions" && credit) {
+          const body = await parseJSON<{ deviceId?: string; allowSandbox?: boolean }>(req);
+          const deviceId = typeof body.deviceId === "string" ? body.deviceId.trim() : "";
+          if (!deviceId) return json(400, { error: "invalid_request", errors: [{ field: "deviceId", message: "required" }] });
+
+          const res = await getTransactionInfoFromApple(env, id);
+          if (!res.ok) return appStoreLookupError(res, "transaction_not_found");
+          const verified = await verifyAppleJWS<AppleSignedTransactionPayload>(env, res.json.signedTransactionInfo);
+          if (!verified.ok) return json(502, { error: "jws_rejected", detail: verified.error });
+          const tx = verified.payload;
+          const txId = String(tx.transactionId || "").trim();
+          const productId = String(tx.productId || "").trim();
+
+          const txKey = `iap:${txId}`;
+          const already = await env.CREDITS.get(txKey);
+          if (already) return json(409, { error: "already_credited", credited: JSON.parse(already) });
+          if (tx.bundleId !== APP_BUNDLE_ID) return json(409, { error: "bundle_mismatch", got: tx.bundleId, want: APP_BUNDLE_ID });
+          if (tx.revocationDate) return json(409, { error: "transaction_revoked" });
+          if (tx.environment !== "Production" && body.allowSandbox !== true) {
+            return json(409, { error: "not_production", environment: tx.environment ?? null });
+          }
+          const credits = PRODUCT_TO_CREDITS[productId] ?? 0;
+          if (credits <= 0) return json(409, { error: "unknown_product", productId });
+
+          // Purchases made with an appAccountToken belong to the device that issued it
+          const ledger = ledgerFor(env, deviceId);
+          const accountToken = await ledger.appAccountToken(deviceId);
+          if (tx.appAccountToken && tx.appAccountToken.toLowerCase() !== accountToken.toLowerCase()) {
+            return json(409, { error: "account_token_mismatch" });
+          }
+
+          const claimed = await creditPurchase(env, deviceId, txId, { productId, creditsGranted: credits, appAccountToken: tx.appAccountToken });
+          if (claimed.already) return json(409, { error: "already_credited", credited: { deviceId } });
+          const { balance } = claimed;
+          await auditAdmin(env, req, "appstore.credit", {
+            deviceId,
+            details: { transactionId: txId, productId, credits, environment: res.environment, transactionEnvironment: tx.environment ?? null },
+          });
+          return json(200, { ok: true, transactionId: txId, productId, credits, balance });
         }
 
-        const grant = parseInt(env.REVIEW_GRANT_AMOUNT || "20", 10) || 20;
-        await addCredits(env, deviceId, grant);
-        await env.CREDITS.put(onceKey, String(Date.now()));
-        
-        // Clear penalty on success
-        await env.CREDITS.delete(`review_penalty:${deviceId}`);
+        return json(404, { error: "not_found" });
+      }
+
+      // --- Admin: audit log (newest first, paginated with the KV cursor) ---
+      if (req.method === "GET" && path === "/admin/audit") {
+        requireAdminAuth(req, env);
+        return json(200, { ok: true, ...(await listNewestFirst(env, "admin_audit", url.searchParams)) });
+      }
 
-        const balance = await getBalance(env, deviceId);
-        console.log(`[review-grant] granted device=${deviceId} +${grant} newBalance=${balance}`);
-        return json(200, { ok: true, granted: grant, balance });
+      // --- Admin: uncaught server errors from the last 7 days (newest first) ---
+      if (req.method === "GET" && path === "/admin/errors") {
+        requireAdminAuth(req, env);
+        return json(200, { ok: true, ...(await listNewestFirst(env, "server_error", url.searchParams)) });
       }
 
       // --- Credits: spend (server-authoritative) ---
@@ -582,15 +4694,15 @@ export default {
       if (req.method === "POST" && path === "/credits/spend") {
         const deviceId = requireDeviceId(req);
         const body = await parseJSON<{ amount?: number }>(req);
-        const amount = Math.max(1, Math.floor(body.amount ?? 1));
+        const errors: FieldError[] = [];
+        const amount = positiveIntField(body, "amount", 1, JOB_AMOUNT_MAX, errors);
+        if (errors.length) return json(400, { error: "invalid_request", errors });
 
-        const bal = await getBalance(env, deviceId);
-        if (bal < amount) {
-          return json(402, { error: "insufficient_credits", balance: bal });
+        const res = await ledgerFor(env, deviceId).spend(deviceId, amount);
+        if (!res.ok) {
+          return json(res.status, { error: res.error, balance: res.balance });
         }
-
-        await setBalance(env, deviceId, bal - amount);
-        return json(200, { ok: true, balance: bal - amount });
+        return json(200, { ok: true, balance: res.balance });
       }
 
       // --- Jobs: start (place a hold) ---
@@ -599,34 +4711,26 @@ export default {
         await ensureInitialGrant(env, deviceId);
 
         const body = await parseJSON<{ amount?: number; jobId?: string; ttlSeconds?: number }>(req);
-        const amount = Math.max(1, Math.floor(body.amount ?? 1));
+        const errors: FieldError[] = [];
+        const amount = positiveIntField(body, "amount", 1, JOB_AMOUNT_MAX, errors);
+        const requestedTtl = positiveIntField(body, "ttlSeconds", 1800, 7 * 86400, errors);
+        if (errors.length) return json(400, { error: "invalid_request", errors });
         const jobId = (body.jobId || crypto.randomUUID()).trim();
-        const ttl = Math.min(Math.max(300, body.ttlSeconds ?? 1800), 86400); // 5 min .. 24h
-
-        const bal = await getBalance(env, deviceId);
-        const reservedRaw = await env.CREDITS.get(`device:${deviceId}:reserved`);
-        const reserved = reservedRaw ? parseInt(reservedRaw, 10) || 0 : 0;
-
-        console.log(`[jobs/start] device=${deviceId} amount=${amount} reservedBefore=${reserved} bal=${bal}`);
-
-        if (bal - reserved < amount) {
-          return json(402, { error: "insufficient_credits", balance: bal, reserved });
-        }
+        const ttl = Math.min(Math.max(300, requestedTtl), 86400); // 5 min .. 24h
 
         // Generate a secure token for this job
         const jobToken = generateSecureToken();
 
-        // Reserve
-        await env.CREDITS.put(`device:${deviceId}:reserved`, String(reserved + amount));
-        const holdKey = `hold:${jobId}`;
-        const expiresAt = Date.now() + ttl * 1000;
-        await env.CREDITS.put(
-          holdKey,
-          JSON.stringify({ deviceId, amount, state: "pending", expiresAt, token: jobToken }),
-          { expirationTtl: ttl }
+        // Reserve (atomic inside the device ledger)
+        const res = await ledgerFor(env, deviceId).startJob(deviceId, { jobId, amount, ttlSeconds: ttl, token: jobToken });
+        console.log(
+          `[jobs/start] device=${deviceId} jobId=${jobId} amount=${amount} ok=${res.ok} reserved=${res.reserved} bal=${res.balance}`
         );
+        if (!res.ok) {
+          return json(res.status, { error: res.error, balance: res.balance, reserved: res.reserved });
+        }
 
-        return json(200, { ok: true, jobId, jobToken, reserved: reserved + amount, balance: bal });
+        return json(200, { ok: true, jobId, jobToken, reserved: res.reserved, balance: res.balance, budget: res.hold.budget });
       }
 
       // --- Jobs: commit (convert hold → debit) ---
@@ -636,42 +4740,25 @@ export default {
         const jobId = (body.jobId || "").trim();
         if (!jobId) return json(400, { error: "missing_job_id" });
 
-        const holdKey = `hold:${jobId}`;
-        const raw = await env.CREDITS.get(holdKey);
-        if (!raw) return json(200, { ok: true, already: true }); // expired or already handled
-
-        let hold: any;
-        try {
-          hold = JSON.parse(raw);
-        } catch {
-          return json(409, { error: "bad_hold" });
-        }
-        if (hold.state !== "pending") return json(200, { ok: true, already: true });
-
-        if (hold.deviceId !== deviceId) {
-          return json(403, { error: "device_mismatch" });
-        }
-        const amount = Math.max(1, Math.floor(hold.amount || 1));
-
-        // Adjust reserved ↓ and balance ↓
-        const bal = await getBalance(env, deviceId);
-        const reservedRaw = await env.CREDITS.get(`device:${deviceId}:reserved`);
-        const reserved = reservedRaw ? parseInt(reservedRaw, 10) || 0 : 0;
+        // Settle from metered usage: reserved ↓ by the hold, balance ↓ by the charge, in one ledger transaction
+        const res = await ledgerFor(env, deviceId).commitJob(deviceId, jobId, priceTable(env));
+        if (!res.ok) return json(res.status, { error: res.error });
+        if (res.already || !res.charge) return json(200, { ok: true, already: true }); // expired or already handled
 
+        const { charge } = res;
         console.log(
-          `[jobs/commit] device=${deviceId} jobId=${jobId} amount=${amount} balBefore=${bal} reservedBefore=${reserved}`
+          `[jobs/commit] device=${deviceId} jobId=${jobId} held=${charge.held} cost=${charge.cost} charged=${charge.charged} carry=${charge.carry} subtotal=${charge.subtotal} newBalance=${res.balance}`
         );
-
-        await setBalance(env, deviceId, Math.max(0, bal - amount));
-        await env.CREDITS.put(`device:${deviceId}:reserved`, String(Math.max(0, reserved - amount)));
-
-        // Mark committed (keep a short record)
-        hold.state = "committed";
-        hold.committedAt = Date.now();
-        await env.CREDITS.put(holdKey, JSON.stringify(hold), { expirationTtl: 3600 });
-
-        const newBal = await getBalance(env, deviceId);
-        return json(200, { ok: true, balance: newBal });
+        return json(200, {
+          ok: true,
+          balance: res.balance,
+          cost: charge.cost,
+          charged: charge.charged,
+          held: charge.held,
+          refunded: charge.refunded,
+          carry: charge.carry,
+          breakdown: { usage: charge.usage, lines: charge.lines, subtotal: charge.subtotal },
+        });
       }
 
       // --- Jobs: cancel (release hold) ---
@@ -681,40 +4768,139 @@ export default {
         const jobId = (body.jobId || "").trim();
         if (!jobId) return json(400, { error: "missing_job_id" });
 
-        const holdKey = `hold:${jobId}`;
-        const raw = await env.CREDITS.get(holdKey);
-        if (!raw) return json(200, { ok: true, already: true });
+        // reserved ↓
+        const res = await ledgerFor(env, deviceId).cancelJob(deviceId, jobId);
+        if (!res.ok) return json(res.status, { error: res.error });
+        if (res.already) return json(200, { ok: true, already: true });
 
-        let hold: any;
-        try {
-          hold = JSON.parse(raw);
-        } catch {
-          return json(409, { error: "bad_hold" });
+        console.log(`[jobs/cancel] device=${deviceId} jobId=${jobId} amount=${res.amount} released`);
+        return json(200, { ok: true, balance: res.balance });
+      }
+
+      // --- Lessons: generate server-side (hold + background job) ---
+      if (req.method === "POST" && path === "/lessons/generate") {
+        const deviceId = requireDeviceId(req);
+        await ensureInitialGrant(env, deviceId);
+
+        const body = await parseJSON<any>(req);
+        const parsed = parseLessonRequest(body);
+        if (!parsed.ok) return json(400, { error: "invalid_request", message: parsed.error });
+        const errors: FieldError[] = [];
+        const amount = positiveIntField(body, "amount", 1, JOB_AMOUNT_MAX, errors);
+        if (errors.length) return json(400, { error: "invalid_request", errors });
+        const jobId = (typeof body.jobId === "string" && body.jobId.trim()) || crypto.randomUUID();
+
+        // A retried request (same jobId) gets the existing job back instead of a second hold
+        const lessons = lessonsFor(env, jobId);
+        const existing = await lessons.status(deviceId);
+        if (existing) return json(200, { ok: true, ...lessonStatusView(existing) });
+
+        const ledger = ledgerFor(env, deviceId);
+        const hold = await ledger.startJob(deviceId, { jobId, amount, ttlSeconds: LESSON_JOB_TTL_SECONDS, token: generateSecureToken() });
+        if (!hold.ok) {
+          return json(hold.status, { error: hold.error, balance: hold.balance, reserved: hold.reserved });
         }
-        if (hold.state !== "pending") return json(200, { ok: true, already: true });
 
-        if (hold.deviceId !== deviceId) {
-          return json(403, { error: "device_mismatch" });
+        const started = await lessons.start(jobId, deviceId, parsed.request);
+        if (!started.ok) {
+          await ledger.cancelJob(deviceId, jobId);
+          return json(409, { error: started.error });
         }
-        const amount = Math.max(1, Math.floor(hold.amount || 1));
 
-        // reserved ↓
-        const reservedRaw = await env.CREDITS.get(`device:${deviceId}:reserved`);
-        const reserved = reservedRaw ? parseInt(reservedRaw, 10) || 0 : 0;
+        console.log(`[lessons/generate] device=${deviceId} jobId=${jobId} amount=${amount} mode=${parsed.request.mode}`);
+        return json(202, { ok: true, ...lessonStatusView(started.state), balance: hold.balance, reserved: hold.reserved });
+      }
 
-        console.log(
-          `[jobs/cancel] device=${deviceId} jobId=${jobId} amount=${amount} reservedBefore=${reserved}`
-        );
+      // --- Lessons: poll status ---
+      const lessonStatusMatch = path.match(/^\/lessons\/([^/]+)\/status$/);
+      if (req.method === "GET" && lessonStatusMatch) {
+        const deviceId = requireDeviceId(req);
+        const jobId = decodeURIComponent(lessonStatusMatch[1]);
+        const state = await lessonsFor(env, jobId).status(deviceId);
+        if (!state) return json(404, { error: "lesson_not_found" });
+        return json(200, { ok: true, ...lessonStatusView(state) });
+      }
+
+      // --- Lessons: download a finished lesson's files (segments JSON, meta, mp3s) ---
+      const lessonFileMatch = path.match(/^\/lessons\/([^/]+)\/files\/([^/]+)$/);
+      if (req.method === "GET" && lessonFileMatch) {
+        const deviceId = requireDeviceId(req);
+        const jobId = decodeURIComponent(lessonFileMatch[1]);
+        const file = decodeURIComponent(lessonFileMatch[2]);
+        const state = await lessonsFor(env, jobId).status(deviceId);
+        if (!state) return json(404, { error: "lesson_not_found" });
+        if (state.status !== "done") return json(409, { error: "lesson_not_ready", status: state.status });
+        if (!state.files?.includes(file)) return json(404, { error: "file_not_found" });
+
+        const obj = await env.AUDIO.get(lessonObjectKey(jobId, file));
+        if (!obj) return json(404, { error: "file_not_found" });
+        return new Response(obj.body, {
+          headers: {
+            "content-type": obj.httpMetadata?.contentType || "application/octet-stream",
+            "cache-control": "no-store",
+          },
+        });
+      }
+
+      // --- Series: create (outline + one lesson job per part, all parts reserved up front) ---
+      if (req.method === "POST" && path === "/series") {
+        const deviceId = requireDeviceId(req);
+        await ensureInitialGrant(env, deviceId);
+
+        const body = await parseJSON<any>(req);
+        const parsed = parseLessonRequest(body);
+        if (!parsed.ok) return json(400, { error: "invalid_request", message: parsed.error });
+        const parts = Math.floor(Number(body.parts) || 0);
+        if (parts < 2 || parts > SERIES_MAX_PARTS) {
+          return json(400, { error: "invalid_request", message: `parts must be between 2 and ${SERIES_MAX_PARTS}` });
+        }
+        const outline = parseOutline(body.outline);
+        const mode: SeriesMode = body.mode === "continuation" && !outline ? "continuation" : "outline";
+        const errors: FieldError[] = [];
+        const amountPerPart = positiveIntField(body, "amountPerPart", 1, JOB_AMOUNT_MAX, errors);
+        if (errors.length) return json(400, { error: "invalid_request", errors });
+        const seriesId = (typeof body.seriesId === "string" && body.seriesId.trim()) || crypto.randomUUID();
+
+        const res = await seriesFor(env, seriesId).create(seriesId, deviceId, parsed.request, { parts, amountPerPart, mode, outline });
+        if (!res.ok) return json(res.status, { error: res.error, balance: res.balance, reserved: res.reserved });
+        if (res.created) {
+          console.log(`[series/create] device=${deviceId} seriesId=${seriesId} parts=${parts} mode=${mode} amountPerPart=${amountPerPart}`);
+        }
+        return json(res.created ? 202 : 200, { ok: true, ...seriesStatusView(res.state) });
+      }
 
-        await env.CREDITS.put(`device:${deviceId}:reserved`, String(Math.max(0, reserved - amount)));
+      // --- Series: status, continue (append parts), cancel (release unstarted parts) ---
+      const seriesMatch = path.match(/^\/series\/([^/]+)(?:\/(continue|cancel))?$/);
+      if (seriesMatch) {
+        const deviceId = requireDeviceId(req);
+        const seriesId = decodeURIComponent(seriesMatch[1]);
+        const action = seriesMatch[2];
+        const series = seriesFor(env, seriesId);
+
+        if (req.method === "GET" && !action) {
+          const state = await series.status(deviceId);
+          if (!state) return json(404, { error: "series_not_found" });
+          return json(200, { ok: true, ...seriesStatusView(state) });
+        }
 
-        // Mark cancelled (or delete)
-        hold.state = "cancelled";
-        hold.cancelledAt = Date.now();
-        await env.CREDITS.put(holdKey, JSON.stringify(hold), { expirationTtl: 900 });
+        if (req.method === "POST" && action === "continue") {
+          const body = await parseJSON<{ parts?: number; amountPerPart?: number }>(req);
+          const errors: FieldError[] = [];
+          const parts = positiveIntField(body, "parts", 1, SERIES_MAX_PARTS, errors);
+          const amountPerPart = positiveIntField(body, "amountPerPart", 1, JOB_AMOUNT_MAX, errors);
+          if (errors.length) return json(400, { error: "invalid_request", errors });
+          const res = await series.extend(deviceId, parts, amountPerPart);
+          if (!res.ok) return json(res.status, { error: res.error, balance: res.balance, reserved: res.reserved });
+          console.log(`[series/continue] device=${deviceId} seriesId=${seriesId} parts=${parts}`);
+          return json(202, { ok: true, ...seriesStatusView(res.state) });
+        }
 
-        const bal = await getBalance(env, deviceId);
-        return json(200, { ok: true, balance: bal });
+        if (req.method === "POST" && action === "cancel") {
+          const res = await series.cancel(deviceId);
+          if (!res.ok) return json(res.status, { error: res.error });
+          console.log(`[series/cancel] device=${deviceId} seriesId=${seriesId}`);
+          return json(200, { ok: true, ...seriesStatusView(res.state) });
+        }
       }
 
       // --- New (iOS 18+): Credits: redeem via signed transactions (StoreKit 2 JWS) ---
@@ -728,127 +4914,103 @@ export default {
           return json(400, { error: "missing_signed_transactions" });
         }
 
-        const missing = ["APPSTORE_ISSUER_ID", "APPSTORE_KEY_ID", "APPSTORE_PRIVATE_KEY"].filter(
-          (k) => !(env as any)[k]
-        );
-        if (missing.length) {
-          console.error(`[redeem-signed] server_not_configured missing=${missing.join(",")}`);
-          return json(500, { error: "server_not_configured", missing });
-        }
+        // Purchases must have been made with this device's appAccountToken
+        const accountToken = await ledgerFor(env, deviceId).appAccountToken(deviceId);
 
         let granted = 0;
         const perTx: any[] = [];
 
         for (const jws of signed) {
-          const parts = jws.split(".");
-          if (parts.length !== 3) {
-            console.log("[redeem-signed] bad_jws_parts");
-            perTx.push({ error: "bad_jws_parts" });
-            continue;
-          }
-
-          let clientPayload: ClientSignedTransactionPayload | null = null;
-          try {
-            clientPayload = JSON.parse(stringFromBase64url(parts[1]));
-          } catch {
-            perTx.push({ error: "bad_client_payload" });
-            continue;
-          }
-
-          const txId = (clientPayload?.transactionId || "").trim();
-          const claimedProductId = (clientPayload?.productId || "").trim();
-          const claimedBundleId = (clientPayload?.bundleId || "").trim();
-          const envHintSandbox = clientPayload?.environment === "Sandbox";
-          console.log(
-            `[redeem-signed] client txId=${txId} productId=${claimedProductId} bundle=${claimedBundleId} env=${clientPayload?.environment}`
-          );
-
-          if (!txId) {
-            perTx.push({ error: "missing_txId" });
-            continue;
-          }
-
-          const infoRes = await getTransactionInfoFromApple(env, txId);
-          if (!infoRes.ok) {
-            // Map common statuses to actionable client errors
-            const status = infoRes.status;
-            let code = "apple_verification_unavailable";
-            if (status === 401 || status === 403) code = "apple_jwt_invalid";          // bad ISS/KID/KEY or expired clock skew
-            else if (status === 404) code = "transaction_not_found";                    // wrong env or bad txId
-            else if (status === 429) code = "apple_rate_limited";                        // retry later
-            console.log(
-              `[redeem-signed] txId=${txId} env=${infoRes.environment} status=${status} code=${code} body=${(infoRes.body || "").slice(0, 400)}`
-            );
-            return new Response(JSON.stringify({ error: code, status, environmentTried: infoRes.environment }), {
-              status: status === 404 ? 404 : status === 401 || status === 403 ? 502 : 503,
-              headers: { "content-type": "application/json", "cache-control": "no-store" },
-            });
-          }
-
-          // happy path
-          const info = infoRes.json; // has signedTransactionInfo
-
-
-          // Decode Apple's signedTransactionInfo JWS payload
-          const appleParts = String(info.signedTransactionInfo).split(".");
-          let applePayload: AppleSignedTransactionPayload | null = null;
-          try {
-            applePayload = JSON.parse(stringFromBase64url(appleParts[1]));
-          } catch {
-            perTx.push({ txId, error: "bad_apple_payload" });
+          // Verify the StoreKit signature locally (x5c chain → Apple Root CA G3); no Apple round trip needed
+          const verified = await verifyAppleJWS<AppleSignedTransactionPayload>(env, jws);
+          if (!verified.ok) {
+            console.log(`[redeem-signed] jws_rejected error=${verified.error}`);
+            perTx.push({ error: verified.error });
             continue;
           }
 
-          const appleTxId = (applePayload?.transactionId || "").trim();
-          const appleProductId = (applePayload?.productId || "").trim();
-          const appleBundleId = (applePayload?.bundleId || "").trim();
+          const applePayload = verified.payload;
+          const txId = String(applePayload?.transactionId || "").trim();
+          const productId = String(applePayload?.productId || "").trim();
+          const bundleId = String(applePayload?.bundleId || "").trim();
 
           console.log(
-            `[redeem-signed] apple txId=${appleTxId} productId=${appleProductId} bundle=${appleBundleId}`
+            `[redeem-signed] verified txId=${txId} productId=${productId} bundle=${bundleId} env=${applePayload?.environment}`
           );
 
-          if (!appleTxId || !appleProductId || !appleBundleId) {
+          if (!txId || !productId || !bundleId) {
             perTx.push({ txId, error: "apple_fields_missing" });
             continue;
           }
-          if (appleBundleId !== APP_BUNDLE_ID) {
-            perTx.push({ txId, error: "bundle_mismatch", got: appleBundleId, want: APP_BUNDLE_ID });
+          if (bundleId !== APP_BUNDLE_ID) {
+            perTx.push({ txId, error: "bundle_mismatch", got: bundleId, want: APP_BUNDLE_ID });
             continue;
           }
-          if (appleTxId !== txId) {
-            perTx.push({ txId, error: "tx_mismatch", appleTxId });
+          if (applePayload.revocationDate) {
+            perTx.push({ txId, error: "transaction_revoked" });
             continue;
           }
-
-          // Idempotency
-          const txKey = `iap:${appleTxId}`;
-          const already = await env.CREDITS.get(txKey);
-          if (already) {
-            console.log(`[redeem-signed] already processed txId=${appleTxId}`);
-            perTx.push({ txId, ok: true, duplicate: true, productId: appleProductId, credits: 0 });
+          if ((applePayload.appAccountToken || "").toLowerCase() !== accountToken.toLowerCase()) {
+            console.log(`[redeem-signed] account_token_mismatch txId=${txId} device=${deviceId}`);
+            perTx.push({ txId, error: "account_token_mismatch" });
             continue;
           }
 
-          const credits = PRODUCT_TO_CREDITS[appleProductId] ?? 0;
-          await env.CREDITS.put(
-            txKey,
-            JSON.stringify({ productId: appleProductId, creditsGranted: credits, ts: Date.now() })
-          );
-          console.log(`[redeem-signed] will grant=${credits} for productId=${appleProductId}`);
-
-          if (credits > 0) {
-            await addCredits(env, deviceId, credits);
-            granted += credits;
+          // Idempotency: the ledger claim decides; a cached `iap:` record short-cuts it
+          const credits = PRODUCT_TO_CREDITS[productId] ?? 0;
+          const duplicate =
+            (await env.CREDITS.get(`iap:${txId}`)) !== null ||
+            (credits > 0 && (await creditPurchase(env, deviceId, txId, { productId, creditsGranted: credits, appAccountToken: accountToken })).already);
+          if (duplicate) {
+            console.log(`[redeem-signed] already processed txId=${txId}`);
+            perTx.push({ txId, ok: true, duplicate: true, productId: productId, credits: 0 });
+            continue;
           }
+          console.log(`[redeem-signed] granted=${credits} for productId=${productId}`);
+          granted += credits;
 
-          perTx.push({ txId, ok: true, productId: appleProductId, credits });
+          perTx.push({ txId, ok: true, productId: productId, credits });
         }
 
-        const balance = await getBalance(env, deviceId);
+        const { balance } = await ledgerFor(env, deviceId).getState(deviceId);
         console.log(`[redeem-signed] device=${deviceId} grantedTotal=${granted} newBalance=${balance}`);
+        // Every transaction refused: fail the call so the app does not finish the transactions and
+        // falls back to the receipt path (e.g. purchases made without a token). Duplicates count as
+        // redeemed, so a retry after a lost response still lets the app finish them.
+        if (perTx.every((t) => t.error)) {
+          return json(422, { ok: false, error: "no_transaction_redeemed", granted, perTx, balance });
+        }
         return json(200, { ok: true, granted, perTx, balance });
       }
 
+      // --- App Store Server Notifications V2 (configured in App Store Connect) ---
+      if (req.method === "POST" && path === "/appstore/notifications") {
+        const body = await parseJSON<{ signedPayload?: string }>(req);
+        const verified = await verifyAppleJWS<AppStoreNotificationPayload>(env, body.signedPayload || "");
+        if (!verified.ok) {
+          console.log(`[appstore-notify] bad_signed_payload error=${verified.error}`);
+          return json(400, { error: "bad_signed_payload", detail: verified.error });
+        }
+        const payload = verified.payload;
+        if (!payload?.notificationUUID || !payload?.notificationType) {
+          return json(400, { error: "bad_notification" });
+        }
+
+        // Apple retries until it gets a 200; only act on each notification once
+        const recordKey = `appstore_notification:${payload.notificationUUID}`;
+        const seen = await env.CREDITS.get(recordKey);
+        if (seen) {
+          return json(200, { ok: true, duplicate: true });
+        }
+
+        const record = await handleAppStoreNotification(env, payload);
+        await env.CREDITS.put(recordKey, JSON.stringify(record), { expirationTtl: NOTIFICATION_RECORD_TTL });
+        console.log(
+          `[appstore-notify] uuid=${record.notificationUUID} type=${record.notificationType} subtype=${record.subtype ?? "-"} txId=${record.txId ?? "-"} action=${record.action}`
+        );
+        return json(200, { ok: true, action: record.action });
+      }
+
       // --- Diagnostics: App Store key sanity (does NOT leak private key) ---
       if (req.method === "GET" && path === "/diag/appstore") {
         requireAdminAuth(req, env);
@@ -960,6 +5122,24 @@ export default {
         }, { headers: { "cache-control": "no-store" }});
       }
 
+      // --- Diagnostics: last expired-hold sweep report ---
+      if (req.method === "GET" && path === "/diag/sweep") {
+        requireAdminAuth(req, env);
+        const raw = await env.CREDITS.get("sweep_report:latest");
+        return json(200, { ok: true, report: raw ? JSON.parse(raw) : null });
+      }
+
+      // --- Diagnostics: TTS cache hit/miss counters (last 7 days) ---
+      if (req.method === "GET" && path === "/diag/tts-cache") {
+        requireAdminAuth(req, env);
+        const days = [];
+        for (let i = 0; i < 7; i++) {
+          const date = new Date(Date.now() - i * 86400 * 1000).toISOString().slice(0, 10);
+          const raw = await env.CREDITS.get(`tts_cache_stats:${date}`);
+          days.push({ date, ...(raw ? JSON.parse(raw) : { hits: 0, misses: 0 }) });
+        }
+        return json(200, { ok: true, days });
+      }
 
       // --- Legacy (< iOS 18): Credits: redeem via App Store receipt (base64) ---
       if (req.method === "POST" && path === "/credits/redeem") {
@@ -1002,32 +5182,39 @@ export default {
         ];
         console.log(`[redeem-receipt] items count=${items.length}`);
 
+        // Purchases made with an appAccountToken belong to the device that issued it; older
+        // purchases carry no token and are credited to whoever submits the receipt first
+        const accountToken = await ledgerFor(env, deviceId).appAccountToken(deviceId);
+
         let granted = 0;
+        const rejected: { txId: string; error: string }[] = [];
         for (const it of items) {
           const txId = String(it?.transaction_id ?? it?.original_transaction_id ?? "").trim();
           const productId = String(it?.product_id ?? "").trim();
           if (!txId || !productId) continue;
 
-          const txKey = `iap:${txId}`;
-          const already = await env.CREDITS.get(txKey);
-          if (already) {
-            console.log(`[redeem-receipt] already processed txId=${txId}`);
+          const itemToken = String(it?.app_account_token ?? "").trim();
+          if (itemToken && itemToken.toLowerCase() !== accountToken.toLowerCase()) {
+            console.log(`[redeem-receipt] account_token_mismatch txId=${txId} device=${deviceId}`);
+            rejected.push({ txId, error: "account_token_mismatch" });
             continue;
           }
 
           const credits = PRODUCT_TO_CREDITS[productId] ?? 0;
-          await env.CREDITS.put(
-            txKey,
-            JSON.stringify({ productId, creditsGranted: credits, ts: Date.now() })
-          );
+          const record = { productId, creditsGranted: credits, ...(itemToken ? { appAccountToken: itemToken } : {}) };
+          const duplicate =
+            (await env.CREDITS.get(`iap:${txId}`)) !== null || (credits > 0 && (await creditPurchase(env, deviceId, txId, record)).already);
+          if (duplicate) {
+            console.log(`[redeem-receipt] already processed txId=${txId}`);
+            continue;
+          }
           console.log(
-            `[redeem-receipt] will grant=${credits} for productId=${productId} txId=${txId}`
+            `[redeem-receipt] granted=${credits} for productId=${productId} txId=${txId}`
           );
-          if (credits > 0) granted += credits;
+          granted += credits;
         }
 
-        if (granted > 0) await addCredits(env, deviceId, granted);
-        const balance = await getBalance(env, deviceId);
+        const { balance } = await ledgerFor(env, deviceId).getState(deviceId);
         console.log(
           `[redeem-receipt] device=${deviceId} grantedTotal=${granted} newBalance=${balance} env=${data?.environment}`
         );
@@ -1036,16 +5223,51 @@ export default {
           ok: true,
           granted,
           balance,
+          rejected,
           environment: data?.environment ?? "Unknown",
         });
       }
 
-      // --- Chat proxy -> OpenAI /v1/chat/completions ---
+      // --- Analysis: estimated CEFR level of a text (deterministic, no upstream call) ---
+      if (req.method === "POST" && path === "/analyze/difficulty") {
+        const deviceId = requireDeviceId(req);
+        const rateLimit = await checkRateLimit(env, `analyze:${deviceId}`, 60, 60);
+        if (!rateLimit.allowed) {
+          return json(429, { error: "rate_limit_exceeded", message: "Too many requests, try again later" });
+        }
+
+        const body = await parseJSON<{ text?: unknown; language?: unknown; level?: unknown }>(req);
+        const errors: FieldError[] = [];
+        if (typeof body?.text !== "string" || !body.text.trim()) errors.push({ field: "text", message: "must be a non-empty string" });
+        else if (body.text.length > DIFFICULTY_MAX_TEXT) errors.push({ field: "text", message: `at most ${DIFFICULTY_MAX_TEXT} characters` });
+        if (typeof body?.language !== "string" || !body.language.trim()) errors.push({ field: "language", message: "must be a language name or code" });
+        if (body?.level !== undefined && !CEFR_LEVELS.includes(body.level as string)) {
+          errors.push({ field: "level", message: `must be one of ${CEFR_LEVELS.join(", ")}` });
+        }
+        if (errors.length) return json(400, { error: "invalid_request", errors });
+
+        return json(200, analyzeDifficulty(body.text as string, body.language as string, body.level as string | undefined));
+      }
+
+      // --- Prompt templates the app can name in /chat ---
+      if (req.method === "GET" && path === "/prompts") {
+        return json(200, {
+          templates: PROMPT_TEMPLATES.map((t) => ({
+            id: `${t.name}@${t.version}`,
+            variables: t.variables,
+            response: t.response?.fields ?? null,
+            languages: Object.keys(t.languages ?? {}),
+            variants: Object.keys(t.variants ?? {}),
+          })),
+        });
+      }
+
+      // --- Chat proxy -> chat completions (OpenAI unless MODEL_ROUTES says otherwise) ---
       if (req.method === "POST" && path === "/chat") {
         const deviceId = requireDeviceId(req);
         
         // Verify valid job hold with token
-        await requireValidJob(req, env, deviceId);
+        const { jobId } = await requireValidJob(req, env, deviceId);
         
         // Rate limit per device: 60 requests per minute
         const rateLimit = await checkRateLimit(env, `chat:${deviceId}`, 60, 60);
@@ -1053,15 +5275,56 @@ export default {
           return json(429, { error: "rate_limit_exceeded", message: "Too many requests, try again later" });
         }
 
-        const body = await parseJSON<any>(req);
-        const r = await fetch("https://api.openai.com/v1/chat/completions", {
-          method: "POST",
-          headers: {
-            authorization: `Bearer ${env.OPENAI_API_KEY}`,
-            "content-type": "application/json",
-          },
-          body: JSON.stringify(body),
-        });
+        // Either a prompt template id + variables (rendered here), or a raw body within the contract
+        const raw = await parseJSON<any>(req);
+        let body: any;
+        let prompt: RenderedPrompt | null = null;
+        if (raw && typeof raw.template === "string") {
+          const rendered = await renderPrompt(raw.template, raw.variables ?? {}, deviceId);
+          if (!rendered.ok) {
+            console.log(`[chat] rejected device=${deviceId} jobId=${jobId} template=${raw.template} fields=${rendered.errors.map((e) => e.field).join(",")}`);
+            return json(400, { error: "invalid_chat_request", errors: rendered.errors });
+          }
+          prompt = rendered.prompt;
+          body = { ...promptChatBody(prompt), ...(raw.stream === true ? { stream: true } : {}) };
+        } else {
+          const checked = validateChatBody(env, raw);
+          if (!checked.ok) {
+            console.log(
+              `[chat] rejected device=${deviceId} jobId=${jobId} fields=${checked.errors.map((e) => e.field || "(body)").join(",")}`
+            );
+            return json(400, { error: "invalid_chat_request", errors: checked.errors });
+          }
+          if (checked.stripped.length) {
+            console.log(`[chat] stripped device=${deviceId} jobId=${jobId} fields=${checked.stripped.join(",")}`);
+          }
+          body = checked.body;
+        }
+        const promptHeaders: Record<string, string> = prompt
+          ? { "x-prompt-template": prompt.templateId, "x-prompt-variant": prompt.variant }
+          : {};
+
+        // One call against the job budget; refuse once its completion tokens are used up
+        await requireJobBudget(env, deviceId, jobId, { chatCalls: 1, promptTokens: 0, completionTokens: 0 });
+
+        // Streaming: ask the provider to append a final usage chunk so the job can still be metered
+        const stream = body?.stream === true;
+        if (stream) {
+          body.stream_options = { ...body.stream_options, include_usage: true };
+        }
+
+        // Classify what is about to be sent; a block releases the hold before anything is spent
+        const policy = moderationPolicy(env);
+        const moderated = moderationEnabled(policy);
+        if (moderated) {
+          const text = chatMessageText(body);
+          const refused = await enforceModeration(env, ctx, deviceId, jobId, "input", await moderate(env, policy, text), text);
+          if (refused) return refused;
+        }
+
+        const { provider, model } = modelRoute(env, "chat");
+        if (model) body.model = model;
+        const r = await provider.chatCompletion(body);
 
         if (!r.ok) {
           const errText = await r.text();
@@ -1071,16 +5334,144 @@ export default {
           });
         }
 
+        // With moderation on, a stream is checked a window at a time before each part reaches the app
+        if (stream && r.body && moderated) {
+          const moderatedStream = await moderateChatStream(
+            r.body,
+            async (content) => enforceModeration(env, ctx, deviceId, jobId, "output", await moderate(env, policy, content), content),
+            (usage) => ctx.waitUntil(recordChatUsage(env, deviceId, jobId, provider.reportUsage(usage)))
+          );
+          if (moderatedStream instanceof Response) return moderatedStream;
+          return new Response(moderatedStream, {
+            headers: { "content-type": "text/event-stream", "cache-control": "no-store", ...promptHeaders },
+          });
+        }
+
+        if (stream && r.body) {
+          // Pass SSE through untouched; usage is metered when the stream ends
+          const passthrough = meterChatStream(r.body, (usage) => {
+            ctx.waitUntil(recordChatUsage(env, deviceId, jobId, provider.reportUsage(usage)));
+          });
+          return new Response(passthrough, {
+            headers: { "content-type": "text/event-stream", "cache-control": "no-store", ...promptHeaders },
+          });
+        }
+
         const data = await r.text();
-        return new Response(data, { headers: { "content-type": "application/json" } });
+
+        // Meter what the call actually used (already spent, so recorded even if it overshoots)
+        let parsed: any = null;
+        try {
+          parsed = JSON.parse(data);
+        } catch {}
+        await recordChatUsage(env, deviceId, jobId, provider.reportUsage(parsed?.usage));
+
+        if (moderated) {
+          const content = String(parsed?.choices?.[0]?.message?.content ?? "");
+          const refused = await enforceModeration(env, ctx, deviceId, jobId, "output", await moderate(env, policy, content), content);
+          if (refused) return refused;
+        }
+
+        return new Response(data, { headers: { "content-type": "application/json", ...promptHeaders } });
+      }
+
+      // --- TTS batch: synthesize a lesson's segments in one request (manifest + stored audio) ---
+      if (req.method === "POST" && path === "/tts/batch") {
+        const deviceId = requireDeviceId(req);
+        const { jobId } = await requireValidJob(req, env, deviceId);
+
+        // One rate-limit hit per batch; the segment cap bounds the work behind it
+        const rateLimit = await checkRateLimit(env, `tts:${deviceId}`, 120, 60);
+        if (!rateLimit.allowed) {
+          return json(429, { error: "rate_limit_exceeded", message: "Too many requests, try again later" });
+        }
+
+        const parsed = parseTtsBatch(await parseJSON<any>(req));
+        if (!parsed.ok) return json(400, { error: "invalid_tts_batch", errors: parsed.errors });
+
+        const results = await mapWithConcurrency(parsed.segments, TTS_BATCH_CONCURRENCY, (seg) =>
+          synthesizeBatchSegment(env, deviceId, jobId, seg, parsed.format)
+        );
+        const hits = results.filter((r) => r.ok && r.cache === "hit").length;
+        const failed = results.filter((r) => !r.ok).length;
+        ctx.waitUntil(bumpTtsCacheStat(env, "hits", hits).then(() => bumpTtsCacheStat(env, "misses", results.length - hits - failed)));
+        console.log(`[tts-batch] device=${deviceId} jobId=${jobId} segments=${results.length} hits=${hits} failed=${failed}`);
+
+        return json(200, { ok: failed === 0, jobId, format: parsed.format, failed, segments: results });
+      }
+
+      // --- TTS dialogue: one voice per speaker, stable per casting key (stored like batch audio) ---
+      if (req.method === "POST" && path === "/tts/dialogue") {
+        const deviceId = requireDeviceId(req);
+        const { jobId } = await requireValidJob(req, env, deviceId);
+
+        const rateLimit = await checkRateLimit(env, `tts:${deviceId}`, 120, 60);
+        if (!rateLimit.allowed) {
+          return json(429, { error: "rate_limit_exceeded", message: "Too many requests, try again later" });
+        }
+
+        const parsed = parseDialogue(await parseJSON<any>(req));
+        if (!parsed.ok) return json(400, { error: "invalid_dialogue", errors: parsed.errors });
+
+        // Pinned cast first, then this request's explicit choices, then new speakers
+        const castKey = parsed.castingKey ? `voice_cast:${deviceId}:${parsed.castingKey}` : null;
+        const pinned: Record<string, string> = castKey ? JSON.parse((await env.CREDITS.get(castKey)) || "{}") : {};
+        const speakers = [...new Set(parsed.lines.map((l) => l.speaker))];
+        const cast = await castVoices(voicePool(env, parsed.language), speakers, { ...pinned, ...parsed.cast });
+        if (castKey) await env.CREDITS.put(castKey, JSON.stringify(cast), { expirationTtl: VOICE_CAST_TTL });
+
+        const segments: TtsBatchSegment[] = parsed.lines.map((line, i) => ({
+          id: `${parsed.dialogueId}-${i + 1}`,
+          text: line.text,
+          language: parsed.language,
+          speed: parsed.speed,
+          voice: cast[line.speaker],
+        }));
+        const results = await mapWithConcurrency(segments, TTS_BATCH_CONCURRENCY, (seg) =>
+          synthesizeBatchSegment(env, deviceId, jobId, seg, parsed.format)
+        );
+        const hits = results.filter((r) => r.ok && r.cache === "hit").length;
+        const failed = results.filter((r) => !r.ok).length;
+        ctx.waitUntil(bumpTtsCacheStat(env, "hits", hits).then(() => bumpTtsCacheStat(env, "misses", results.length - hits - failed)));
+        console.log(`[dialogue] device=${deviceId} jobId=${jobId} lines=${results.length} speakers=${speakers.length} failed=${failed}`);
+
+        return json(200, {
+          ok: failed === 0,
+          jobId,
+          dialogueId: parsed.dialogueId,
+          format: parsed.format,
+          cast: Object.fromEntries(speakers.map((sp) => [sp, cast[sp]])),
+          failed,
+          lines: results.map((r, i) => ({ index: i, speaker: parsed.lines[i].speaker, voice: segments[i].voice, ...r })),
+        });
       }
 
-      // --- TTS proxy -> OpenAI /v1/audio/speech (MP3) ---
+      // --- TTS batch: download one segment's audio (only by the device that made it) ---
+      const ttsBatchFileMatch = path.match(/^\/tts\/batch\/([^/]+)\/files\/([^/]+)$/);
+      if (req.method === "GET" && ttsBatchFileMatch) {
+        const deviceId = requireDeviceId(req);
+        const jobId = decodeURIComponent(ttsBatchFileMatch[1]);
+        const file = decodeURIComponent(ttsBatchFileMatch[2]);
+        const obj = await env.AUDIO.get(ttsBatchObjectKey(deviceId, jobId, file));
+        const expiresAt = Number(obj?.customMetadata?.expiresAt || 0);
+        if (!obj || (expiresAt && Date.now() > expiresAt)) {
+          await obj?.body.cancel();
+          return json(404, { error: "file_not_found" });
+        }
+        return new Response(obj.body, {
+          headers: {
+            "content-type": obj.httpMetadata?.contentType || "application/octet-stream",
+            "cache-control": "no-store",
+          },
+        });
+      }
+
+      // --- TTS proxy -> audio/speech (MP3; OpenAI unless MODEL_ROUTES says otherwise) ---
       if (req.method === "POST" && path === "/tts") {
         const deviceId = requireDeviceId(req);
         
         // Verify valid job hold with token
-        await requireValidJob(req, env, deviceId);
+        const { jobId } = await requireValidJob(req, env, deviceId);
         
         // Rate limit per device: 120 requests per minute (TTS is higher volume)
         const rateLimit = await checkRateLimit(env, `tts:${deviceId}`, 120, 60);
@@ -1094,30 +5485,99 @@ export default {
           speed?: "regular" | "slow";
           voice?: string;
           format?: "mp3" | "wav" | "flac";
+          /** Return JSON (base64 audio + word timings) instead of bare audio bytes */
+          timings?: boolean;
         }>(req);
+        if (typeof wanted?.text !== "string" || !wanted.text.trim()) {
+          return json(400, { error: "invalid_request", errors: [{ field: "text", message: "must be a non-empty string" }] });
+        }
 
-        const instruction =
-          wanted.speed === "slow"
-            ? `Speak naturally and slowly${wanted.language ? ` in ${wanted.language}` : ""}.`
-            : `Speak naturally${wanted.language ? ` in ${wanted.language}` : ""}.`;
-
-        const upstreamBody = {
-          model: "gpt-4o-mini-tts",
-          voice: wanted.voice || "shimmer",
-          input: wanted.text,
-          format: wanted.format || "mp3",
-          instructions: instruction,
-        };
+        const { provider, model } = modelRoute(env, "tts");
+        const upstreamBody = buildTtsBody(wanted, model!);
+        if (wanted.timings && upstreamBody.input.length > TTS_TIMINGS_MAX_TEXT) {
+          return json(400, { error: "text_too_long_for_timings", max: TTS_TIMINGS_MAX_TEXT });
+        }
 
-        const r = await fetch("https://api.openai.com/v1/audio/speech", {
-          method: "POST",
-          headers: {
-            authorization: `Bearer ${env.OPENAI_API_KEY}`,
-            "content-type": "application/json",
-          },
-          body: JSON.stringify(upstreamBody),
+        // Cache hits need no upstream call and cost no job budget
+        const cacheKey = await ttsCacheKey(provider.name, upstreamBody);
+        let audio = await getCachedTts(env, cacheKey);
+        const cache = audio ? "hit" : "miss";
+        ctx.waitUntil(bumpTtsCacheStat(env, audio ? "hits" : "misses"));
+
+        if (!audio) {
+          // Refuse once the budget is used up, but charge only audio that was actually produced,
+          // so a failed call costs nothing and its retry is charged once
+          await requireJobBudget(env, deviceId, jobId, { ttsChars: 0 });
+
+          const r = await provider.synthesizeSpeech(upstreamBody);
+
+          if (!r.ok) {
+            const errText = await r.text();
+            return new Response(errText || '{"error":"upstream_error"}', {
+              status: r.status,
+              headers: { "content-type": "application/json" },
+            });
+          }
+
+          audio = await r.arrayBuffer();
+          await ledgerFor(env, deviceId).meterUsage(deviceId, jobId, { ttsChars: upstreamBody.input.length }, { enforce: false });
+          ctx.waitUntil(putCachedTts(env, cacheKey, audio));
+        }
+
+        // The audio is already paid for, so a timing failure still returns it (words: null)
+        if (wanted.timings) {
+          const timings = await ttsWordTimings(env, deviceId, jobId, cacheKey, audio, upstreamBody.input, upstreamBody.format);
+          if (!timings.ok) console.log(`[tts] timings failed device=${deviceId} jobId=${jobId} error=${timings.error}`);
+          return json(200, {
+            format: upstreamBody.format,
+            audio: base64FromBytes(new Uint8Array(audio)),
+            cache,
+            text: upstreamBody.input,
+            ...(timings.ok ? { duration: timings.duration, words: timings.words } : { words: null, timingsError: timings.error }),
+          });
+        }
+
+        return new Response(audio, {
+          headers: { "content-type": "audio/mpeg", "cache-control": "no-store", "x-tts-cache": cache },
         });
+      }
 
+      // --- STT: transcribe a shadowing recording and score it against the segment text ---
+      if (req.method === "POST" && path === "/stt") {
+        const deviceId = requireDeviceId(req);
+        const { jobId } = await requireValidJob(req, env, deviceId);
+
+        const rateLimit = await checkRateLimit(env, `stt:${deviceId}`, 60, 60);
+        if (!rateLimit.allowed) {
+          return json(429, { error: "rate_limit_exceeded", message: "Too many requests, try again later" });
+        }
+
+        // multipart/form-data: audio (file), reference (segment text), language (optional ISO-639-1)
+        let form: FormData;
+        try {
+          form = await req.formData();
+        } catch {
+          return json(400, { error: "invalid_request", message: "expected multipart/form-data with audio and reference" });
+        }
+        const audio = form.get("audio");
+        const reference = form.get("reference");
+        const language = form.get("language");
+        if (!audio || typeof audio === "string" || audio.size === 0) {
+          return json(400, { error: "invalid_request", message: "audio file is required" });
+        }
+        if (audio.size > STT_MAX_BYTES) return json(413, { error: "audio_too_large", maxBytes: STT_MAX_BYTES });
+        if (typeof reference !== "string" || !reference.trim() || reference.length > STT_MAX_REFERENCE) {
+          return json(400, { error: "invalid_request", message: `reference must be 1-${STT_MAX_REFERENCE} characters` });
+        }
+
+        // Length is unknown until transcribed: refuse only once the budget is used up, then meter
+        await requireJobBudget(env, deviceId, jobId, { sttSeconds: 0 });
+        const { provider, model } = modelRoute(env, "stt");
+        const r = await provider.transcribeAudio(audio, {
+          model: model!,
+          filename: audio.name || "recording.m4a",
+          language: typeof language === "string" ? language : undefined,
+        });
         if (!r.ok) {
           const errText = await r.text();
           return new Response(errText || '{"error":"upstream_error"}', {
@@ -1125,10 +5585,12 @@ export default {
             headers: { "content-type": "application/json" },
           });
         }
+        const heard = parseTranscription(await r.json());
+        await ledgerFor(env, deviceId).meterUsage(deviceId, jobId, { sttSeconds: Math.ceil(heard.duration) }, { enforce: false });
 
-        return new Response(r.body, {
-          headers: { "content-type": "audio/mpeg", "cache-control": "no-store" },
-        });
+        const scored = scoreShadowing(reference, heard);
+        console.log(`[stt] device=${deviceId} jobId=${jobId} seconds=${heard.duration} words=${scored.words.length} score=${scored.score}`);
+        return json(200, { reference, transcript: heard.text, duration: heard.duration, ...scored });
       }
 
       return new Response("Not found", { status: 404 });
@@ -1138,7 +5600,13 @@ export default {
         return err.response;
       }
       console.error("UNCAUGHT", err?.stack || String(err));
+      ctx.waitUntil(recordServerError(env, req, err));
       return json(500, { error: "server_exception", detail: String(err?.message || err) });
     }
   },
+
+  async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(sweepExpiredHolds(env, controller.scheduledTime));
+    ctx.waitUntil(deleteExpiredBatchAudio(env, controller.scheduledTime));
+  },
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,126 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { admin } from './helpers';
+
+async function device(deviceId: string, path: string, body?: unknown) {
+	const res = await SELF.fetch(`http://example.com${path}`, {
+		method: body === undefined ? 'GET' : 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+	return res.json<any>();
+}
+
+async function lookup(deviceId: string) {
+	return (await (await admin('GET', `/admin/devices/${deviceId}`)).json<any>()).device;
+}
+
+describe('admin support API', () => {
+	it('looks up a device with its holds and grant markers, without hold tokens', async () => {
+		const deviceId = 'admin-lookup';
+		const job = await device(deviceId, '/jobs/start', { amount: 2 });
+		await device(deviceId, '/credits/redeem-code', { code: 'AppReview2025' });
+
+		const snapshot = await lookup(deviceId);
+		expect(snapshot).toMatchObject({ deviceId, reserved: 2, initialGranted: true, transactions: [] });
+		expect(snapshot.available).toBe(snapshot.balance - 2);
+		expect(snapshot.holds).toEqual([expect.objectContaining({ jobId: job.jobId, state: 'pending', amount: 2 })]);
+		expect(snapshot.holds[0].token).toBeUndefined();
+		expect(snapshot.grants.promoCodes).toEqual([{ code: 'APPREVIEW2025', count: 1 }]);
+		expect(snapshot.penalties).toEqual({ failedCodes: 0, blockedSince: null });
+		expect(snapshot.recentEntries[0]).toMatchObject({ type: 'review_grant', amount: 20 });
+	});
+
+	it("lists only the device's own promo redemptions when ids share a suffix or prefix", async () => {
+		await device('admin-codes', '/credits/balance');
+		await device('x:admin-codes', '/credits/redeem-code', { code: 'AppReview2025' });
+		await device('admin-codes:x', '/credits/redeem-code', { code: 'AppReview2025' });
+		expect((await lookup('admin-codes')).grants.promoCodes).toEqual([]);
+	});
+
+	it('finds devices by id and pages the full ledger', async () => {
+		await device('admin-search', '/credits/balance');
+		await admin('POST', '/admin/devices/admin-search/adjust', { amount: 3, reason: 'Support ticket 812' });
+
+		const byId = await (await admin('GET', '/admin/devices?q=admin-search')).json<any>();
+		expect(byId.matches).toEqual([{ deviceId: 'admin-search', via: 'deviceId' }]);
+		expect((await admin('GET', '/admin/devices?q=')).status).toBe(400);
+
+		const page = await (await admin('GET', '/admin/devices/admin-search/history?limit=1')).json<any>();
+		expect(page.entries).toEqual([expect.objectContaining({ type: 'admin_adjustment', reason: 'Support ticket 812' })]);
+		expect(page.nextBefore).toBe(page.entries[0].seq);
+	});
+
+	it('applies signed adjustments with a required reason', async () => {
+		const deviceId = 'admin-adjust';
+		const { balance } = await device(deviceId, '/credits/balance');
+
+		const missing = await admin('POST', `/admin/devices/${deviceId}/adjust`, { amount: 5 });
+		expect(missing.status).toBe(400);
+		expect((await missing.json<any>()).errors.map((e: any) => e.field)).toEqual(['reason']);
+
+		const credit = await (await admin('POST', `/admin/devices/${deviceId}/adjust`, { amount: 5, reason: 'Lesson failed twice' })).json<any>();
+		expect(credit).toEqual({ ok: true, applied: 5, balance: balance + 5 });
+
+		// Debits stop at zero and report what was actually taken
+		const debit = await (await admin('POST', `/admin/devices/${deviceId}/adjust`, { amount: -1000, reason: 'Chargeback' })).json<any>();
+		expect(debit).toEqual({ ok: true, applied: -(balance + 5), balance: 0 });
+
+		const { entries } = await device(deviceId, '/credits/history');
+		expect(entries[0]).toMatchObject({ type: 'admin_adjustment', amount: -(balance + 5), reason: 'Chargeback' });
+	});
+
+	it('reports what each of several concurrent debits actually took', async () => {
+		const deviceId = 'admin-adjust-race';
+		const { balance } = await device(deviceId, '/credits/balance');
+		const debit = () => admin('POST', `/admin/devices/${deviceId}/adjust`, { amount: -(balance - 1), reason: 'Duplicate grant' });
+		const debits = await Promise.all([debit(), debit()].map((r) => r.then((res) => res.json<any>())));
+		expect(debits.map((d) => d.applied).sort((a, b) => a - b)).toEqual([-(balance - 1), -1]);
+
+		const { entries } = await (await admin('GET', '/admin/audit?limit=2')).json<any>();
+		expect(entries.map((e: any) => e.details.applied).sort((a: number, b: number) => a - b)).toEqual([-(balance - 1), -1]);
+	});
+
+	it('force-cancels a pending hold once', async () => {
+		const deviceId = 'admin-hold';
+		const job = await device(deviceId, '/jobs/start', { amount: 1 });
+
+		const res = await (await admin('POST', `/admin/devices/${deviceId}/holds/${job.jobId}/cancel`)).json<any>();
+		expect(res).toMatchObject({ ok: true, released: 1, reserved: 0 });
+
+		const again = await admin('POST', `/admin/devices/${deviceId}/holds/${job.jobId}/cancel`);
+		expect(again.status).toBe(409);
+		expect(await again.json()).toEqual({ error: 'hold_not_pending', state: 'cancelled' });
+		expect((await admin('POST', `/admin/devices/${deviceId}/holds/nope/cancel`)).status).toBe(404);
+	});
+
+	it('resets failed-code penalties', async () => {
+		const deviceId = 'admin-penalty';
+		for (let i = 0; i < 5; i++) await device(deviceId, '/credits/redeem-code', { code: `WRONG${i}` });
+		expect((await lookup(deviceId)).penalties.blockedSince).not.toBeNull();
+
+		await admin('POST', `/admin/devices/${deviceId}/reset-penalties`);
+		expect((await lookup(deviceId)).penalties).toEqual({ failedCodes: 0, blockedSince: null });
+		expect(await device(deviceId, '/credits/redeem-code', { code: 'WRONG5' })).toEqual({ error: 'bad_code' });
+	});
+
+	it('records every admin action in the audit log, newest first', async () => {
+		await admin('POST', '/admin/devices/admin-audit/adjust', { amount: 2, reason: 'Goodwill' });
+		await admin('POST', '/admin/devices/admin-audit/reset-penalties');
+
+		const { entries } = await (await admin('GET', '/admin/audit?limit=2')).json<any>();
+		expect(entries.map((e: any) => e.action)).toEqual(['device.reset_penalties', 'device.adjust']);
+		expect(entries[1]).toMatchObject({
+			actor: 'support@inputmax',
+			deviceId: 'admin-audit',
+			details: { requested: 2, applied: 2, reason: 'Goodwill' },
+		});
+
+		const errors = await (await admin('GET', '/admin/errors')).json<any>();
+		expect(errors).toMatchObject({ ok: true, cursor: null });
+
+		const anonymous = await SELF.fetch('http://example.com/admin/audit');
+		expect(anonymous.status).toBe(401);
+		await anonymous.body?.cancel();
+	});
+});
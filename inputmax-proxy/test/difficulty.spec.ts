@@ -0,0 +1,68 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+
+function analyze(body: unknown) {
+	return SELF.fetch('http://example.com/analyze/difficulty', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': 'difficulty' },
+		body: JSON.stringify(body),
+	});
+}
+
+const EASY = `Tom has a dog. The dog is big. It is brown and white. Tom and the dog go to the park every day.
+They play with a ball. The dog likes the ball very much. Then they go home. Tom gives the dog some water.
+The dog is happy. Tom is happy too. At night the dog sleeps in the house.`;
+
+const HARD = `Notwithstanding considerable institutional resistance, the municipality's comprehensive rehabilitation
+programme simultaneously addressed infrastructural deterioration, demographic displacement and environmental
+vulnerability, thereby establishing unprecedented collaborative mechanisms between neighbourhood associations,
+international conservationists and economically heterogeneous stakeholders whose competing priorities had
+historically paralysed decision-making, although several commentators subsequently questioned whether the
+ostensibly participatory consultation procedures genuinely redistributed authority or merely legitimised
+predetermined architectural interventions.`;
+
+describe('difficulty analysis', () => {
+	it('rates short everyday sentences as beginner text', async () => {
+		const report = await (await analyze({ text: EASY, language: 'English', level: 'A1' })).json<any>();
+		expect(report.estimate).toMatch(/^A[12]$/);
+		expect(report.stats).toMatchObject({ words: 61, sentences: 11 });
+		expect(report.stats.avgSentenceLength).toBeLessThan(6);
+		expect(report.stats.coverage).toBeGreaterThan(0.6);
+		expect(report.stats.rareWordDensity).toBe(0);
+		expect(report.explanation.at(-1)).toMatch(/^Estimated A[12]/);
+	});
+
+	it('rates long sentences full of rare words as advanced and reports the gap to the target', async () => {
+		const report = await (await analyze({ text: HARD, language: 'en-GB', level: 'A2' })).json<any>();
+		expect(report.estimate).toMatch(/^C[12]$/);
+		expect(report.bands).toMatchObject({ avgSentenceLength: 'C2', rareWordDensity: 'C2' });
+		expect(report.delta).toBeGreaterThanOrEqual(3);
+		expect(report.explanation.at(-1)).toContain('above the requested A2');
+	});
+
+	it('is deterministic', async () => {
+		const first = await (await analyze({ text: HARD, language: 'English' })).json<any>();
+		const second = await (await analyze({ text: HARD, language: 'English' })).json<any>();
+		expect(second).toEqual(first);
+		expect(first).toMatchObject({ target: null, delta: null });
+	});
+
+	it('falls back to sentence statistics for languages without a frequency list', async () => {
+		const report = await (await analyze({ text: EASY, language: 'Klingon' })).json<any>();
+		expect(report.stats).toMatchObject({ coverage: null, rareWordDensity: null });
+		expect(report.explanation).toContain('No frequency list for Klingon; estimated from sentence length and variety only.');
+		expect(report.estimate).not.toBeNull();
+	});
+
+	it('does not estimate texts that are too short', async () => {
+		const report = await (await analyze({ text: 'Olá, Lisboa.', language: 'Portuguese' })).json<any>();
+		expect(report.estimate).toBeNull();
+		expect(report.explanation.at(-1)).toBe('Too short to estimate: 2 words, at least 40 needed.');
+	});
+
+	it('rejects requests without text or with an unknown level', async () => {
+		const res = await analyze({ language: 'English', level: 'D1' });
+		expect(res.status).toBe(400);
+		expect((await res.json<any>()).errors.map((e: any) => e.field)).toEqual(['text', 'level']);
+	});
+});
@@ -1,3 +1,5 @@
+import type { Env as WorkerEnv } from '../src';
+
 declare module 'cloudflare:test' {
-	interface ProvidedEnv extends Env {}
+	interface ProvidedEnv extends WorkerEnv {}
 }
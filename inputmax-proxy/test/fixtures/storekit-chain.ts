@@ -0,0 +1,39 @@
+// Test-only StoreKit signing chain shaped like Apple's (root → WWDR intermediate → leaf).
+// Generated with openssl; valid for 100 years. The worker trusts this root in tests via
+// APPSTORE_EXTRA_ROOT_SHA256 (see vitest.config.mts). Never use these keys outside tests.
+
+export const TEST_ROOT_SHA256 = '8c7393c00ad616a4757eac3cc50bc3f7aa346dd9fff5690c84684fc8d5a06d5a';
+
+export const TEST_CHAIN = [
+	// leaf: P-256, OID 1.2.840.113635.100.6.11.1
+	'MIICCjCCAY+gAwIBAgIUN+J12jnCp3KdOlpplo2GntGrglUwCgYIKoZIzj0EAwMwNTEVMBMGA1UEAwwMVGVzdCBXV0RSIEc2MRwwGgYDVQQKDBNJbnB1dE1heGltaXplciBUZXN0MCAXDTI2MTAxOTAzMzk1MFoYDzIxMjYwOTI1MDMzOTUwWjA+MR4wHAYDVQQDDBVUZXN0IFN0b3JlS2l0IFNpZ25pbmcxHDAaBgNVBAoME0lucHV0TWF4aW1pemVyIFRlc3QwWTATBgcqhkjOPQIBBggqhkjOPQMBBwNCAAT0Dk763gxtzXt0R6dar/5iMJhbkSOgZJaDqPDiQ7aVqXjlSQ5Grzwbl/UaTu4Dirr+11mAM1DsLzMCPcJeVa1qo3IwcDAMBgNVHRMBAf8EAjAAMA4GA1UdDwEB/wQEAwIHgDAQBgoqhkiG92NkBgsBBAIFADAdBgNVHQ4EFgQUL9z2rjPZIc/XcBdHbwwy1c45GYQwHwYDVR0jBBgwFoAUmdNcd6NjHqZy/tS5vArSP4ZMhHAwCgYIKoZIzj0EAwMDaQAwZgIxAOPvJZjtadC+v//HfiaKrlXbO8SX+gyebI0EAKEZK39dce7f7ZSVPbQGBhyHx4k3jAIxAJhIYjjhw41hrScmwNkUgOOJXqAg6YzJ8hRUJwPXIa/mcAdSmqum2I5jMRNLCfuqPg==',
+	// intermediate: P-384, OID 1.2.840.113635.100.6.2.1
+	'MIICJTCCAaygAwIBAgIUe1LI2WM0mP6k5o1QzJ2hz5Lm8I8wCgYIKoZIzj0EAwMwODEYMBYGA1UEAwwPVGVzdCBSb290IENBIEczMRwwGgYDVQQKDBNJbnB1dE1heGltaXplciBUZXN0MCAXDTI2MTAxOTAzMzk0OVoYDzIxMjYwOTI1MDMzOTQ5WjA1MRUwEwYDVQQDDAxUZXN0IFdXRFIgRzYxHDAaBgNVBAoME0lucHV0TWF4aW1pemVyIFRlc3QwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAAS3e+Zzkln1igbwTOf2T5s1m3oWEZpDF0TGhoG/VG2izq+8ZAPtJHlNv/mj9WnYXK8mtRM/mT/FuQtbZ/1NVTJzDo79fN56Hz6faMhGgKJ9zcOEaVmY6vE69QX/oEeo5dajeDB2MBIGA1UdEwEB/wQIMAYBAf8CAQAwDgYDVR0PAQH/BAQDAgEGMBAGCiqGSIb3Y2QGAgEEAgUAMB0GA1UdDgQWBBSZ01x3o2MepnL+1Lm8CtI/hkyEcDAfBgNVHSMEGDAWgBQ9VhBnOfbsDDRwpL4RobBKC3uUPDAKBggqhkjOPQQDAwNnADBkAjA65mQM1zHd1UiasQmJukLxp0Encb1F9WXbJOO77nypjmpoD4M5lVXo7/JF+rtHKaQCMFZ90w08WAni40PD2kqYPi58uFwhRGoEkwM3s80lfOzCV1BpgaZVxR592QHwCsyTsg==',
+	// root: P-384, self-signed
+	'MIICFTCCAZqgAwIBAgIUD2a40bWqZkkWJlCDaIeImHoxg9AwCgYIKoZIzj0EAwMwODEYMBYGA1UEAwwPVGVzdCBSb290IENBIEczMRwwGgYDVQQKDBNJbnB1dE1heGltaXplciBUZXN0MCAXDTI2MTAxOTAzMzk0OVoYDzIxMjYwOTI1MDMzOTQ5WjA4MRgwFgYDVQQDDA9UZXN0IFJvb3QgQ0EgRzMxHDAaBgNVBAoME0lucHV0TWF4aW1pemVyIFRlc3QwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAASKtdmJjmFqLIcp3cuTBMHY2pJjklG5fCNHgy7JHAHNSo0BQdYbxSDHetOSxjhrCL6bRuyndVvlYdurrIkspXnrsQP5W3KKOMNsXL0Q8ov2a6uMOEA1CE3onVccB+h67ayjYzBhMB0GA1UdDgQWBBQ9VhBnOfbsDDRwpL4RobBKC3uUPDAfBgNVHSMEGDAWgBQ9VhBnOfbsDDRwpL4RobBKC3uUPDAPBgNVHRMBAf8EBTADAQH/MA4GA1UdDwEB/wQEAwIBBjAKBggqhkjOPQQDAwNpADBmAjEAqDhTF41z2QrmyDsAIIFvjPfFUA1KHxXNY7x/s7gOxHBvsvoAulatBnYw62lS7DuJAjEA4F1gPfoQ6o/3XoRO/mho1OqSgZm6IGXb5DR+xUxZXLGLqUF7SRkQ36Fx2uLpuhfw',
+];
+
+// A self-signed root with the same subject as the test root but a different key (not trusted)
+export const UNTRUSTED_ROOT = 'MIICBDCCAYqgAwIBAgIUac+DwDfVejZnEVDy9D4ARszkYbowCgYIKoZIzj0EAwMwODEYMBYGA1UEAwwPVGVzdCBSb290IENBIEczMRwwGgYDVQQKDBNJbnB1dE1heGltaXplciBUZXN0MCAXDTI2MTAxOTAzMzk1MFoYDzIxMjYwOTI1MDMzOTUwWjA4MRgwFgYDVQQDDA9UZXN0IFJvb3QgQ0EgRzMxHDAaBgNVBAoME0lucHV0TWF4aW1pemVyIFRlc3QwdjAQBgcqhkjOPQIBBgUrgQQAIgNiAASSzeEW6uihZ4AxijUKMClZpzIkOspHbCBYomfOBFt4p8dq+8JkW7mb47ElellH2Kal+cY2Ctmi+AlWTLdrdX2v0LPVY2XuQenN5LszEknyX1FADQG6XPbHlkFaAm8/lSOjUzBRMB0GA1UdDgQWBBTj8XhNNkO+8rHXpS90folcwZhWkDAfBgNVHSMEGDAWgBTj8XhNNkO+8rHXpS90folcwZhWkDAPBgNVHRMBAf8EBTADAQH/MAoGCCqGSM49BAMDA2gAMGUCMQDhiCeLmepz70exNS0fhRI+DVuFagf4NI4Mo6tDUl4xiEb+92I5eeKy3/Gh0Vku4DYCMGgtDX/z+U355NmvWDV1gnYpIHiXO8mlVsifLrQCGNN9eQtOLT779Gm0YPhshRZAaA==';
+
+// PKCS#8 private key of the leaf certificate
+const TEST_LEAF_KEY_PKCS8 = 'MIGHAgEAMBMGByqGSM49AgEGCCqGSM49AwEHBG0wawIBAQQg+BCLgEbeYfXbMGeBbVgSB8pDBv6i5jx3pdxCCANRokihRANCAAT0Dk763gxtzXt0R6dar/5iMJhbkSOgZJaDqPDiQ7aVqXjlSQ5Grzwbl/UaTu4Dirr+11mAM1DsLzMCPcJeVa1q';
+
+function b64url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '');
+}
+
+// Sign `payload` as a compact ES256 JWS with an x5c header, the way StoreKit does
+export async function signStoreKitJWS(payload: unknown, x5c: string[] = TEST_CHAIN): Promise<string> {
+	const key = await crypto.subtle.importKey(
+		'pkcs8',
+		Uint8Array.from(atob(TEST_LEAF_KEY_PKCS8), (c) => c.charCodeAt(0)),
+		{ name: 'ECDSA', namedCurve: 'P-256' },
+		false,
+		['sign'],
+	);
+	const enc = new TextEncoder();
+	const signingInput = `${b64url(enc.encode(JSON.stringify({ alg: 'ES256', x5c })))}.${b64url(enc.encode(JSON.stringify(payload)))}`;
+	const sig = new Uint8Array(await crypto.subtle.sign({ name: 'ECDSA', hash: 'SHA-256' }, key, enc.encode(signingInput)));
+	return `${signingInput}.${b64url(sig)}`;
+}
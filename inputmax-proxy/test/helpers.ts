@@ -0,0 +1,53 @@
+// Request helpers shared by the specs: device, job and admin headers the way the app and the console send them.
+
+import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import worker from '../src';
+
+type Job = { jobId: string; jobToken: string };
+
+export async function startJob(deviceId: string, amount = 1) {
+	const res = await post('/jobs/start', deviceId, { amount });
+	return res.json<any>();
+}
+
+function jobRequest(path: string, deviceId: string, job: Job, body: unknown) {
+	return new Request(`http://example.com${path}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+		body: JSON.stringify(body),
+	});
+}
+
+// POST to a route that runs under a job hold
+export function call(path: string, deviceId: string, job: Job, body: unknown) {
+	return SELF.fetch(jobRequest(path, deviceId, job, body));
+}
+
+// Same, with extra configuration on top of the test bindings
+export async function callWith(overrides: Record<string, string>, path: string, deviceId: string, job: Job, body: unknown) {
+	const ctx = createExecutionContext();
+	const res = await worker.fetch(jobRequest(path, deviceId, job, body), { ...env, ...overrides }, ctx);
+	await waitOnExecutionContext(ctx);
+	return res;
+}
+
+export function post(path: string, deviceId: string, body: unknown) {
+	return SELF.fetch(`http://example.com${path}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+		body: JSON.stringify(body),
+	});
+}
+
+export function get(path: string, deviceId: string) {
+	return SELF.fetch(`http://example.com${path}`, { headers: { 'X-Device-Id': deviceId } });
+}
+
+// Admin routes, as the support account the console signs in with
+export function admin(method: string, path: string, body?: unknown) {
+	return SELF.fetch(`http://example.com${path}`, {
+		method,
+		headers: { 'content-type': 'application/json', 'X-Admin-Secret': 'test-admin', 'X-Admin-Actor': 'support@inputmax' },
+		body: body === undefined ? undefined : JSON.stringify(body),
+	});
+}
@@ -0,0 +1,122 @@
+import { env, createExecutionContext, createScheduledController, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import worker from '../src';
+import { post } from './helpers';
+
+describe('device ledger', () => {
+	it('does not over-reserve when jobs start concurrently', async () => {
+		const deviceId = 'ledger-concurrent';
+		const results = await Promise.all(Array.from({ length: 6 }, () => post('/jobs/start', deviceId, { amount: 1 })));
+		const statuses = results.map((r) => r.status).sort();
+		// Initial grant is 3 credits, so exactly 3 holds fit
+		expect(statuses).toEqual([200, 200, 200, 402, 402, 402]);
+
+		const balance = await SELF.fetch('http://example.com/credits/balance', { headers: { 'X-Device-Id': deviceId } });
+		expect(await balance.json()).toEqual({ balance: 3, reserved: 3, available: 0 });
+	});
+
+	it('rejects amounts and TTLs that are not positive integers without touching the ledger', async () => {
+		const deviceId = 'ledger-invalid';
+		const bad = await post('/jobs/start', deviceId, { amount: 'x', ttlSeconds: 'x' });
+		expect(bad.status).toBe(400);
+		expect((await bad.json<any>()).errors.map((e: any) => e.field)).toEqual(['amount', 'ttlSeconds']);
+		expect((await post('/jobs/start', deviceId, { amount: 0 })).status).toBe(400);
+		expect((await post('/credits/spend', deviceId, { amount: 1.5 })).status).toBe(400);
+
+		expect((await post('/jobs/start', deviceId, { amount: 500 })).status).toBe(402);
+		const stub = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect(await stub.getState(deviceId)).toEqual({ balance: 3, reserved: 0, available: 3 });
+		expect(await stub.startJob(deviceId, { jobId: 'job-nan', amount: NaN, ttlSeconds: NaN, token: 't' })).toMatchObject({
+			ok: false,
+			error: 'invalid_hold',
+		});
+	});
+
+	it('meters a keyed charge once, so a retried step is not charged again', async () => {
+		const deviceId = 'ledger-meter-once';
+		const { jobId } = await (await post('/jobs/start', deviceId, { amount: 1 })).json<any>();
+		const stub = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		const meter = () => stub.meterUsage(deviceId, jobId, { ttsChars: 120 }, { enforce: false, once: 'tts:part_1.mp3' });
+		await Promise.all([meter(), meter()]);
+		await stub.meterUsage(deviceId, jobId, { ttsChars: 30 }, { enforce: false, once: 'tts:part_2.mp3' });
+		expect((await stub.getHold(deviceId, jobId))?.usage?.ttsChars).toBe(150);
+	});
+
+	it('commits and cancels holds exactly once', async () => {
+		const deviceId = 'ledger-commit';
+		const a = await (await post('/jobs/start', deviceId, { amount: 2, jobId: 'job-a' })).json<any>();
+		await post('/jobs/start', deviceId, { amount: 1, jobId: 'job-b' });
+		expect(a.reserved).toBe(2);
+
+		const commits = await Promise.all([post('/jobs/commit', deviceId, { jobId: 'job-a' }), post('/jobs/commit', deviceId, { jobId: 'job-a' })]);
+		const bodies = await Promise.all(commits.map((r) => r.json<any>()));
+		expect(bodies.filter((b) => b.already)).toHaveLength(1);
+
+		// Nothing was metered, so the 2-credit hold costs the minimum, which carries to the next job
+		expect(bodies.find((b) => !b.already)).toMatchObject({ cost: 0.1, charged: 0, carry: 0.1, held: 2, refunded: 2, balance: 3 });
+
+		const cancel = await (await post('/jobs/cancel', deviceId, { jobId: 'job-b' })).json<any>();
+		expect(cancel).toEqual({ ok: true, balance: 3 });
+
+		const balance = await SELF.fetch('http://example.com/credits/balance', { headers: { 'X-Device-Id': deviceId } });
+		expect(await balance.json()).toEqual({ balance: 3, reserved: 0, available: 3 });
+	});
+
+	it('sweeper releases expired holds and writes a report', async () => {
+		const deviceId = 'ledger-sweep';
+		await post('/jobs/start', deviceId, { amount: 2, jobId: 'job-stale', ttlSeconds: 300 });
+		await post('/jobs/start', deviceId, { amount: 1, jobId: 'job-live', ttlSeconds: 86400 });
+
+		const ctx = createExecutionContext();
+		await worker.scheduled(createScheduledController({ scheduledTime: Date.now() + 3600 * 1000 }), env, ctx);
+		await waitOnExecutionContext(ctx);
+
+		const balance = await SELF.fetch('http://example.com/credits/balance', { headers: { 'X-Device-Id': deviceId } });
+		expect(await balance.json()).toEqual({ balance: 3, reserved: 1, available: 2 });
+
+		const report = JSON.parse((await env.CREDITS.get('sweep_report:latest')) ?? '{}');
+		expect(report.fixed).toContainEqual(
+			expect.objectContaining({ deviceId, released: [{ jobId: 'job-stale', amount: 2 }], reservedBefore: 3, reservedAfter: 1 }),
+		);
+	});
+
+	it('keeps a device in the sweeper index while a job started during the sweep is pending', async () => {
+		const deviceId = 'ledger-index';
+		await post('/jobs/start', deviceId, { amount: 1, jobId: 'job-old', ttlSeconds: 300 });
+		expect(await env.CREDITS.get(`pending_device:${deviceId}`)).not.toBeNull();
+
+		const stub = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		const [swept] = await Promise.all([stub.sweep(deviceId, Date.now() + 3600 * 1000), post('/jobs/start', deviceId, { amount: 1, jobId: 'job-new' })]);
+		const { reserved } = await stub.getState(deviceId);
+		expect(reserved).toBe(1);
+		expect(swept.released).toEqual([{ jobId: 'job-old', amount: 1 }]);
+		expect(await env.CREDITS.get(`pending_device:${deviceId}`)).not.toBeNull();
+
+		await post('/jobs/cancel', deviceId, { jobId: 'job-new' });
+		await stub.sweep(deviceId, Date.now());
+		expect(await env.CREDITS.get(`pending_device:${deviceId}`)).toBeNull();
+	});
+
+	it('records every balance change in the history', async () => {
+		const deviceId = 'ledger-history';
+		await post('/jobs/start', deviceId, { amount: 2, jobId: 'job-h1' });
+		await post('/jobs/commit', deviceId, { jobId: 'job-h1' });
+		await post('/jobs/start', deviceId, { amount: 1, jobId: 'job-h2' });
+		await post('/jobs/cancel', deviceId, { jobId: 'job-h2' });
+
+		const history = (deviceId: string, query: string) =>
+			SELF.fetch(`http://example.com/credits/history${query}`, { headers: { 'X-Device-Id': deviceId } }).then((r) => r.json<any>());
+
+		const first = await history(deviceId, '?limit=2');
+		expect(first.entries.map((e: any) => [e.type, e.amount, e.balance, e.jobId])).toEqual([
+			['job_cancel', 0, 3, 'job-h2'],
+			['job_commit', 0, 3, 'job-h1'],
+		]);
+		const second = await history(deviceId, `?limit=2&before=${first.nextBefore}`);
+		expect(second.entries.map((e: any) => [e.type, e.amount, e.balance])).toEqual([['initial_grant', 3, 3]]);
+		expect(second.nextBefore).toBeNull();
+
+		const stub = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect(await stub.replayBalance(deviceId)).toEqual({ balance: 3, derived: 3, entries: 3 });
+	});
+});
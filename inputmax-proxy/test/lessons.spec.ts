@@ -0,0 +1,256 @@
+import { env, fetchMock, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { get, post } from './helpers';
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const LESSON = {
+	mode: 'prompt',
+	userPrompt: 'A short walk through Lisbon',
+	genLanguage: 'Portuguese',
+	transLanguage: 'English',
+	segmentation: 'sentences',
+	lengthWords: 100,
+};
+
+function generate(deviceId: string, body: unknown) {
+	return SELF.fetch('http://example.com/lessons/generate', {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+		body: JSON.stringify(body),
+	});
+}
+
+async function pollStatus(deviceId: string, jobId: string, until: string) {
+	await expect
+		.poll(async () => (await (await get(`/lessons/${jobId}/status`, deviceId)).json<any>()).status, { timeout: 10_000 })
+		.toBe(until);
+	return (await get(`/lessons/${jobId}/status`, deviceId)).json<any>();
+}
+
+// Answers each pipeline call by the response schema it asks for
+function mockLessonChat(times: number, seen: any[] = []) {
+	fetchMock
+		.get('https://api.openai.com')
+		.intercept({ path: '/v1/chat/completions', method: 'POST' })
+		.reply(200, (opts) => {
+			const body = JSON.parse(String(opts.body));
+			seen.push(body);
+			const user: string = body.messages[1].content;
+			const content = {
+				series_outline: { outline: '1. Arrival\n2. Departure' },
+				refined_prompt: { refined_prompt: 'Write about Lisbon.' },
+				generated_text: { title: '"Lisboa"', body: 'Olá, Lisboa. O sol brilha!\n\nAdeus.' },
+				translation: { translation: user.includes('Adeus') ? 'Goodbye.' : 'Hello, Lisbon. The sun shines!' },
+				summary: { summary: 'Ana arrived in Lisbon.' },
+			}[body.response_format.json_schema.name as string];
+			return { choices: [{ message: { content: JSON.stringify(content) } }], usage: { prompt_tokens: 10, completion_tokens: 20 } };
+		})
+		.times(times);
+}
+
+function mockLessonSpeech(times: number) {
+	fetchMock.get('https://api.openai.com').intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'mp3-bytes').times(times);
+}
+
+describe('server-side lesson generation', () => {
+	it('generates segments and audio, then commits the hold', async () => {
+		const deviceId = 'lesson-ok';
+		mockLessonChat(4);
+		mockLessonSpeech(6);
+
+		const res = await generate(deviceId, LESSON);
+		expect(res.status).toBe(202);
+		const started = await res.json<any>();
+		expect(started).toMatchObject({ ok: true, status: 'queued', reserved: 1 });
+
+		const done = await pollStatus(deviceId, started.jobId, 'done');
+		expect(done).toMatchObject({ title: 'Lisboa', progress: { segmentsDone: 3, segmentsTotal: 3 }, charged: 0 });
+		expect(done.files).toContain(`segments_${started.jobId}.json`);
+		expect(done.files).toContain(`portug_${started.jobId}_1.mp3`);
+
+		const segments = await (await get(`/lessons/${started.jobId}/files/segments_${started.jobId}.json`, deviceId)).json<any>();
+		expect(segments).toEqual([
+			expect.objectContaining({ id: 1, pt_text: 'Olá, Lisboa.', en_text: 'Hello, Lisbon.', paragraph: 0 }),
+			expect.objectContaining({ id: 2, pt_text: 'O sol brilha!', en_text: 'The sun shines!', paragraph: 0 }),
+			expect.objectContaining({ id: 3, pt_text: 'Adeus.', en_text: 'Goodbye.', en_file: `englis_${started.jobId}_3.mp3`, paragraph: 1 }),
+		]);
+		expect(await (await get(`/lessons/${started.jobId}/files/englis_${started.jobId}_3.mp3`, deviceId)).text()).toBe('mp3-bytes');
+
+		// A short lesson costs a fraction of a credit, which carries to the device's next job
+		const balance = await (await get('/credits/balance', deviceId)).json<any>();
+		expect(balance).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('returns the existing job when a generate request is retried', async () => {
+		const deviceId = 'lesson-retry';
+		mockLessonChat(4);
+		mockLessonSpeech(6);
+
+		const first = await (await generate(deviceId, { ...LESSON, jobId: 'lesson-retry-1' })).json<any>();
+		const again = await generate(deviceId, { ...LESSON, jobId: 'lesson-retry-1' });
+		expect(again.status).toBe(200);
+		expect((await again.json<any>()).jobId).toBe(first.jobId);
+
+		await pollStatus(deviceId, first.jobId, 'done');
+		expect((await (await get('/credits/balance', deviceId)).json<any>()).reserved).toBe(0);
+	});
+
+	it('fails the job and releases the hold on a permanent upstream error', async () => {
+		const deviceId = 'lesson-fail';
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/chat/completions', method: 'POST' }).reply(400, { error: 'bad' });
+
+		const started = await (await generate(deviceId, LESSON)).json<any>();
+		const failed = await pollStatus(deviceId, started.jobId, 'failed');
+		expect(failed).toMatchObject({ step: 'write', error: 'upstream_400' });
+
+		const balance = await (await get('/credits/balance', deviceId)).json<any>();
+		expect(balance).toMatchObject({ balance: 3, reserved: 0 });
+		expect((await get(`/lessons/${started.jobId}/files/lesson_meta.json`, deviceId)).status).toBe(409);
+	});
+
+	it('rewrites a draft that misses the requested level once, reusing the brief', async () => {
+		const deviceId = 'lesson-level';
+		const hard =
+			'A extraordinariamente complexa administração municipal lisboeta implementou investimentos significativos relativamente à reabilitação arquitetónica dos bairros históricos, considerando simultaneamente preocupações ambientais, económicas, demográficas e patrimoniais, enquanto numerosos especialistas internacionais acompanhavam cuidadosamente os procedimentos participativos. Consequentemente, diversas associações comunitárias questionaram publicamente a legitimidade democrática dessas intervenções urbanísticas aparentemente predeterminadas.';
+		const easy =
+			'Ana mora em Lisboa. Ela tem um gato. O gato é pequeno e branco. Todos os dias Ana vai à rua com o gato. Eles vão ao rio. O gato bebe água. Depois eles vão para casa. Ana está feliz e o gato também.';
+		const seen: any[] = [];
+		let drafts = 0;
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(200, (opts) => {
+				const body = JSON.parse(String(opts.body));
+				seen.push(body);
+				const content =
+					body.response_format.json_schema.name === 'refined_prompt'
+						? { refined_prompt: 'Write about Ana in Lisbon.' }
+						: { title: 'Ana', body: drafts++ === 0 ? hard : easy };
+				return { choices: [{ message: { content: JSON.stringify(content) } }], usage: { prompt_tokens: 10, completion_tokens: 20 } };
+			})
+			.times(3);
+		// Same target and helper language: no translation calls, and each helper clip is a cache hit
+		mockLessonSpeech(8);
+
+		const started = await (await generate(deviceId, { ...LESSON, transLanguage: 'Portuguese', languageLevel: 'A1' })).json<any>();
+		const done = await pollStatus(deviceId, started.jobId, 'done');
+		expect(done.difficulty).toMatchObject({ target: 'A1', rewrites: 1 });
+		expect(done.difficulty.estimate).toMatch(/^A[12]$/);
+
+		const writers = seen.filter((b) => b.response_format.json_schema.name === 'generated_text').map((b) => b.messages[0].content);
+		expect(writers[0]).not.toContain('A previous draft');
+		expect(writers[1]).toMatch(/A previous draft read as C[12] instead of A1\./);
+		expect(seen.filter((b) => b.response_format.json_schema.name === 'refined_prompt')).toHaveLength(1);
+	});
+
+	it('rejects incomplete requests and hides jobs from other devices', async () => {
+		const bad = await generate('lesson-bad', { mode: 'prompt', genLanguage: 'Portuguese', transLanguage: 'English' });
+		expect(bad.status).toBe(400);
+		expect(await bad.json()).toMatchObject({ error: 'invalid_request' });
+		const badAmount = await generate('lesson-bad', { ...LESSON, amount: 'x' });
+		expect(await badAmount.json()).toEqual({ error: 'invalid_request', errors: [{ field: 'amount', message: 'must be an integer 1-1000' }] });
+		expect((await (await get('/credits/balance', 'lesson-bad')).json<any>()).reserved).toBe(0);
+
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/chat/completions', method: 'POST' }).reply(400, { error: 'bad' });
+		const started = await (await generate('lesson-owner', LESSON)).json<any>();
+		expect((await get(`/lessons/${started.jobId}/status`, 'lesson-other')).status).toBe(404);
+		await pollStatus('lesson-owner', started.jobId, 'failed');
+	});
+});
+
+async function pollSeries(deviceId: string, seriesId: string, until: string) {
+	await expect
+		.poll(async () => (await (await get(`/series/${seriesId}`, deviceId)).json<any>()).status, { timeout: 10_000 })
+		.toBe(until);
+	return (await get(`/series/${seriesId}`, deviceId)).json<any>();
+}
+
+describe('server-side series', () => {
+	it('generates an outline, then each part with the rolling summary', async () => {
+		const deviceId = 'series-outline';
+		const seen: any[] = [];
+		// Outline, then refine/write/2× translate/summarize per part; part 2 reuses part 1's cached audio
+		mockLessonChat(11, seen);
+		mockLessonSpeech(6);
+
+		const res = await post('/series', deviceId, { ...LESSON, parts: 2 });
+		expect(res.status).toBe(202);
+		const created = await res.json<any>();
+		expect(created).toMatchObject({ status: 'running', mode: 'outline', totalParts: 2 });
+		expect((await (await get('/credits/balance', deviceId)).json<any>()).reserved).toBe(2);
+
+		const done = await pollSeries(deviceId, created.seriesId, 'done');
+		expect(done).toMatchObject({
+			outline: ['Arrival', 'Departure'],
+			summary: 'Ana arrived in Lisbon.',
+			completedParts: 2,
+			parts: [
+				{ partNumber: 1, status: 'done', title: 'Lisboa' },
+				{ partNumber: 2, status: 'done', title: 'Lisboa' },
+			],
+		});
+
+		const writers = seen.filter((b) => b.response_format.json_schema.name === 'generated_text').map((b) => b.messages[0].content);
+		expect(writers[0]).toContain('Write part 1: Arrival');
+		expect(writers[0]).not.toContain('Story so far');
+		expect(writers[1]).toContain('Write part 2: Departure');
+		expect(writers[1]).toContain('Story so far: Ana arrived in Lisbon.');
+
+		const part = await (await get(`/lessons/${done.parts[1].jobId}/status`, deviceId)).json<any>();
+		expect(part).toMatchObject({ status: 'done', charged: 0 });
+		expect(await (await get('/credits/balance', deviceId)).json<any>()).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('continues a finished series from its summary', async () => {
+		const deviceId = 'series-continue';
+		const seen: any[] = [];
+		mockLessonChat(15, seen);
+		mockLessonSpeech(6);
+
+		const created = await (await post('/series', deviceId, { ...LESSON, parts: 2, mode: 'continuation' })).json<any>();
+		await pollSeries(deviceId, created.seriesId, 'done');
+		expect(seen.some((b) => b.response_format.json_schema.name === 'series_outline')).toBe(false);
+
+		const res = await post(`/series/${created.seriesId}/continue`, deviceId, { parts: 1 });
+		expect(res.status).toBe(202);
+		const done = await pollSeries(deviceId, created.seriesId, 'done');
+		expect(done.parts.map((p: any) => p.status)).toEqual(['done', 'done', 'done']);
+
+		const writers = seen.filter((b) => b.response_format.json_schema.name === 'generated_text').map((b) => b.messages[0].content);
+		expect(writers[2]).toContain('part 3 of a 3-part series');
+		expect(await (await get('/credits/balance', deviceId)).json<any>()).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('reserves every part up front or none of them', async () => {
+		const res = await post('/series', 'series-broke', { ...LESSON, parts: 4 });
+		expect(res.status).toBe(402);
+		expect(await res.json()).toMatchObject({ error: 'insufficient_credits', reserved: 0 });
+	});
+
+	it('rejects part counts and amounts that are not positive integers', async () => {
+		const deviceId = 'series-invalid';
+		const create = await post('/series', deviceId, { ...LESSON, parts: 2, amountPerPart: 'x' });
+		expect(create.status).toBe(400);
+		expect((await create.json<any>()).errors).toEqual([{ field: 'amountPerPart', message: 'must be an integer 1-1000' }]);
+
+		const more = await post('/series/any-series/continue', deviceId, { parts: 'x', amountPerPart: -1 });
+		expect((await more.json<any>()).errors.map((e: any) => e.field)).toEqual(['parts', 'amountPerPart']);
+		expect(await (await get('/credits/balance', deviceId)).json<any>()).toMatchObject({ reserved: 0 });
+	});
+
+	it('refunds the parts that are not generated when a part fails', async () => {
+		const deviceId = 'series-fail';
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/chat/completions', method: 'POST' }).reply(400, { error: 'bad' });
+
+		const created = await (await post('/series', deviceId, { ...LESSON, parts: 3, outline: 'One\nTwo\nThree' })).json<any>();
+		const failed = await pollSeries(deviceId, created.seriesId, 'failed');
+		expect(failed.parts.map((p: any) => p.status)).toEqual(['failed', 'released', 'released']);
+		expect(await (await get('/credits/balance', deviceId)).json<any>()).toMatchObject({ balance: 3, reserved: 0 });
+	});
+});
@@ -0,0 +1,86 @@
+import { SELF } from 'cloudflare:test';
+import { describe, it, expect } from 'vitest';
+import { admin } from './helpers';
+
+function redeem(deviceId: string, code: string, path = '/credits/redeem-code') {
+	return SELF.fetch(`http://example.com${path}`, {
+		method: 'POST',
+		headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+		body: JSON.stringify({ code }),
+	});
+}
+
+describe('promo codes', () => {
+	it('grants a code once per device and counts redemptions toward its limit', async () => {
+		const created = await admin('POST', '/admin/promo-codes', { code: 'spring-25', amount: 15, maxRedemptions: 2, campaign: 'spring' });
+		expect(created.status).toBe(201);
+		expect((await created.json<any>()).code).toMatchObject({ code: 'SPRING-25', amount: 15, perDevice: 1, remaining: 2 });
+
+		expect(await (await redeem('promo-a', ' spring-25 ')).json()).toMatchObject({ ok: true, granted: 15, campaign: 'spring' });
+		expect(await (await redeem('promo-a', 'SPRING-25')).json()).toMatchObject({ ok: true, granted: 0, already: true });
+		expect((await redeem('promo-b', 'SPRING-25')).status).toBe(200);
+
+		const exhausted = await redeem('promo-c', 'SPRING-25');
+		expect(exhausted.status).toBe(410);
+		expect(await exhausted.json()).toEqual({ error: 'code_exhausted' });
+
+		const stats = (await (await admin('GET', '/admin/promo-codes/spring-25')).json<any>()).code;
+		expect(stats).toMatchObject({ redemptions: 2, devices: 2, creditsGranted: 30, remaining: 0 });
+	});
+
+	it('honors the validity window and disabling', async () => {
+		const day = 86_400_000;
+		await admin('POST', '/admin/promo-codes', { code: 'LATER', amount: 5, startsAt: Date.now() + day });
+		await admin('POST', '/admin/promo-codes', { code: 'OVER', amount: 5, endsAt: new Date(Date.now() - day).toISOString() });
+		await admin('POST', '/admin/promo-codes', { code: 'PAUSED', amount: 5 });
+		await admin('POST', '/admin/promo-codes/paused/disable');
+
+		expect(await (await redeem('promo-window', 'LATER')).json()).toEqual({ error: 'code_not_started' });
+		expect(await (await redeem('promo-window', 'OVER')).json()).toEqual({ error: 'code_expired' });
+		expect(await (await redeem('promo-window', 'PAUSED')).json()).toEqual({ error: 'code_disabled' });
+
+		await admin('POST', '/admin/promo-codes/PAUSED/enable');
+		expect(await (await redeem('promo-window', 'PAUSED')).json()).toMatchObject({ ok: true, granted: 5 });
+	});
+
+	it('generates batches of single-use gift codes and lists them with totals', async () => {
+		const res = await admin('POST', '/admin/promo-codes/batch', { count: 3, prefix: 'gift', amount: 10, campaign: 'xmas' });
+		expect(res.status).toBe(201);
+		const { batchId, codes } = await res.json<any>();
+		expect(codes).toHaveLength(3);
+		for (const code of codes) expect(code).toMatch(/^GIFT-[2-9A-HJKMNP-Z]{10}$/);
+
+		expect((await redeem('gift-a', codes[0])).status).toBe(200);
+		expect(await (await redeem('gift-b', codes[0])).json()).toEqual({ error: 'code_exhausted' });
+
+		const list = await (await admin('GET', `/admin/promo-codes?batchId=${batchId}`)).json<any>();
+		expect(list.totals).toEqual({ codes: 3, redemptions: 1, creditsGranted: 10 });
+		expect(list.codes.every((c: any) => c.campaign === 'xmas' && c.maxRedemptions === 1)).toBe(true);
+	});
+
+	it('serves the review code through the legacy path', async () => {
+		const first = await redeem('promo-review', 'appreview2025', '/credits/review-grant');
+		expect(await first.json()).toMatchObject({ ok: true, granted: 20, campaign: 'app-review' });
+		expect(await (await redeem('promo-review', 'AppReview2025')).json()).toMatchObject({ granted: 0, already: true });
+	});
+
+	it('blocks a device after repeated unknown codes', async () => {
+		for (let i = 0; i < 4; i++) expect(await (await redeem('promo-guess', `NOPE${i}`)).json()).toEqual({ error: 'bad_code' });
+		const fifth = await redeem('promo-guess', 'NOPE5');
+		expect(await fifth.json()).toMatchObject({ error: 'too_many_failures' });
+		expect(await (await redeem('promo-guess', 'SPRING-25')).json()).toMatchObject({ error: 'blocked' });
+	});
+
+	it('requires the admin secret and validates code definitions', async () => {
+		const anonymous = await SELF.fetch('http://example.com/admin/promo-codes');
+		expect(anonymous.status).toBe(401);
+		await anonymous.body?.cancel();
+
+		const bad = await admin('POST', '/admin/promo-codes', { code: 'x', amount: 0, perDevice: 0, endsAt: 'soon' });
+		expect(bad.status).toBe(400);
+		expect((await bad.json<any>()).errors.map((e: any) => e.field)).toEqual(['code', 'amount', 'perDevice', 'endsAt']);
+
+		await admin('POST', '/admin/promo-codes', { code: 'TWICE', amount: 1 });
+		expect((await admin('POST', '/admin/promo-codes', { code: 'TWICE', amount: 1 })).status).toBe(409);
+	});
+});
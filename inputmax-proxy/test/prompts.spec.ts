@@ -0,0 +1,93 @@
+import { fetchMock, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import { call, startJob } from './helpers';
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+async function chat(deviceId: string, body: unknown) {
+	return call('/chat', deviceId, await startJob(deviceId), body);
+}
+
+function mockChat(seen: any[]) {
+	fetchMock
+		.get('https://api.openai.com')
+		.intercept({ path: '/v1/chat/completions', method: 'POST' })
+		.reply(200, (opts) => {
+			seen.push(JSON.parse(String(opts.body)));
+			return { choices: [{ message: { content: '{}' } }], usage: { prompt_tokens: 1, completion_tokens: 1 } };
+		});
+}
+
+const TRANSLATE = { targetLanguage: 'English', style: 'literal', text: 'Olá, Lisboa.' };
+
+describe('prompt templates', () => {
+	it('renders a named template server-side and forwards it', async () => {
+		const seen: any[] = [];
+		mockChat(seen);
+		const res = await chat('prompt-render', { template: 'lesson.translate@1', variables: TRANSLATE });
+		expect(res.status).toBe(200);
+		expect(res.headers.get('x-prompt-template')).toBe('lesson.translate@1');
+		expect(res.headers.get('x-prompt-variant')).toBe('control');
+
+		const [body] = seen;
+		expect(body.model).toBe('gpt-5-nano');
+		expect(body.response_format.json_schema.name).toBe('translation');
+		expect(body.messages[0].content).toContain('Translate as literally as possible.');
+		expect(body.messages[0].content).not.toContain('idiomatically');
+		expect(body.messages[1].content).toContain('Target language: English');
+		expect(body.messages[1].content).toContain('Olá, Lisboa.');
+	});
+
+	it('resolves the latest version when none is given', async () => {
+		const seen: any[] = [];
+		mockChat(seen);
+		const res = await chat('prompt-latest', { template: 'lesson.translate', variables: TRANSLATE });
+		expect(res.headers.get('x-prompt-template')).toBe('lesson.translate@1');
+	});
+
+	it('rejects unknown templates and bad variables with field errors', async () => {
+		const unknown = await chat('prompt-bad', { template: 'lesson.nope@1', variables: {} });
+		expect(unknown.status).toBe(400);
+		expect(await unknown.json()).toMatchObject({ error: 'invalid_chat_request', errors: [{ field: 'template' }] });
+
+		const bad = await chat('prompt-bad', { template: 'lesson.translate@1', variables: { ...TRANSLATE, style: 'poetic', text: 42 } });
+		expect(bad.status).toBe(400);
+		const fields = (await bad.json<any>()).errors.map((e: any) => e.field);
+		expect(fields).toEqual(expect.arrayContaining(['variables.style', 'variables.text']));
+	});
+
+	it('applies language overrides for CJK targets', async () => {
+		const seen: any[] = [];
+		mockChat(seen);
+		mockChat(seen);
+		const vars = { wordCount: 100, level: 'A2', brief: 'A walk.' };
+		await chat('prompt-cjk', { template: 'lesson.story@1', variables: { ...vars, targetLanguage: 'Japanese' } });
+		await chat('prompt-cjk', { template: 'lesson.story@1', variables: { ...vars, targetLanguage: 'Portuguese' } });
+		expect(seen[0].messages[0].content).toContain('avoid rare characters');
+		expect(seen[1].messages[0].content).not.toContain('avoid rare characters');
+	});
+
+	it('keeps a device on the same variant', async () => {
+		const seen: any[] = [];
+		mockChat(seen);
+		mockChat(seen);
+		const vars = { targetLanguage: 'Portuguese', wordCount: 100, level: 'B1', material: 'Lisbon' };
+		const first = await chat('prompt-variant', { template: 'lesson.refine@1', variables: vars });
+		const second = await chat('prompt-variant', { template: 'lesson.refine@1', variables: vars });
+		expect(['control', 'concise']).toContain(first.headers.get('x-prompt-variant'));
+		expect(second.headers.get('x-prompt-variant')).toBe(first.headers.get('x-prompt-variant'));
+		expect(seen[1].messages).toEqual(seen[0].messages);
+	});
+
+	it('lists the templates the app can name', async () => {
+		const res = await SELF.fetch('http://example.com/prompts');
+		const { templates } = await res.json<any>();
+		expect(templates.map((t: any) => t.id)).toContain('lesson.story@1');
+		expect(templates.find((t: any) => t.id === 'lesson.refine@1').variants).toEqual(['control', 'concise']);
+	});
+});
@@ -0,0 +1,148 @@
+import { env, createExecutionContext, fetchMock, waitOnExecutionContext } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect } from 'vitest';
+import worker from '../src';
+import { callWith, startJob } from './helpers';
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+const FAKE = {
+	MODEL_ROUTES: JSON.stringify({
+		chat: { provider: 'fake' },
+		tts: { provider: 'fake', model: 'fake-tts' },
+		stt: { provider: 'fake' },
+		moderation: { provider: 'fake' },
+	}),
+};
+
+describe('model providers', () => {
+	it('answers /chat from the fake provider and meters its usage', async () => {
+		const deviceId = 'provider-fake-chat';
+		const job = await startJob(deviceId);
+		const body = { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'Olá!' }] };
+
+		const first = await (await callWith(FAKE, '/chat', deviceId, job, body)).json<any>();
+		const second = await (await callWith(FAKE, '/chat', deviceId, job, body)).json<any>();
+		expect(first.choices[0].message.content).toBe('fake reply: Olá!');
+		expect(second).toEqual(first);
+
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage).toMatchObject({ chatCalls: 2, promptTokens: 2, completionTokens: 8 });
+	});
+
+	it('fills JSON-schema responses and streams with a usage chunk', async () => {
+		const deviceId = 'provider-fake-stream';
+		const job = await startJob(deviceId);
+		const schema = { type: 'json_schema', json_schema: { name: 't', schema: { type: 'object', properties: { title: {}, body: {} } } } };
+
+		const structured = await (await callWith(FAKE, '/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'x' }], response_format: schema })).json<any>();
+		expect(JSON.parse(structured.choices[0].message.content)).toEqual({ title: 'fake title: x', body: 'fake body: x' });
+
+		const sse = await (await callWith(FAKE, '/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'x' }], stream: true })).text();
+		expect(sse).toContain('"usage"');
+		expect(sse.trim().endsWith('data: [DONE]')).toBe(true);
+	});
+
+	it('synthesizes /tts with the fake provider and the configured model', async () => {
+		const deviceId = 'provider-fake-tts';
+		const job = await startJob(deviceId);
+		const res = await callWith(FAKE, '/tts', deviceId, job, { text: 'Bom dia', voice: 'alloy' });
+		expect(await res.text()).toBe('FAKE-AUDIO fake-tts alloy Bom dia');
+	});
+
+	it('returns word timings for /tts from the fake transcriber, cached with the audio', async () => {
+		const deviceId = 'provider-fake-timings';
+		const job = await startJob(deviceId);
+		const text = 'Olá, Lisboa! Bom dia.';
+
+		const first = await (await callWith(FAKE, '/tts', deviceId, job, { text, voice: 'alloy', timings: true })).json<any>();
+		const audio = new TextDecoder().decode(Uint8Array.from(atob(first.audio), (c) => c.charCodeAt(0)));
+		expect(audio).toBe(`FAKE-AUDIO fake-tts alloy ${text}`);
+		expect(first).toMatchObject({ cache: 'miss', duration: 1.6 });
+		expect(first.words).toEqual([
+			{ text: 'Olá', start: 0, end: 0.4, charStart: 0, charEnd: 3 },
+			{ text: 'Lisboa', start: 0.4, end: 0.8, charStart: 5, charEnd: 11 },
+			{ text: 'Bom', start: 0.8, end: 1.2, charStart: 13, charEnd: 16 },
+			{ text: 'dia', start: 1.2, end: 1.6, charStart: 17, charEnd: 20 },
+		]);
+
+		const second = await (await callWith(FAKE, '/tts', deviceId, job, { text, voice: 'alloy', timings: true })).json<any>();
+		expect(second).toMatchObject({ cache: 'hit', words: first.words });
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage).toMatchObject({ ttsChars: text.length, sttSeconds: 2 });
+	});
+
+	it('scores a shadowing recording word by word with the fake transcriber', async () => {
+		const deviceId = 'provider-fake-stt';
+		const job = await startJob(deviceId);
+		const shadow = async (said: string, reference: string) => {
+			const form = new FormData();
+			form.append('audio', new File([said], 'recording.m4a'));
+			form.append('reference', reference);
+			const ctx = createExecutionContext();
+			const res = await worker.fetch(
+				new Request('http://example.com/stt', {
+					method: 'POST',
+					headers: { 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+					body: form,
+				}),
+				{ ...env, ...FAKE },
+				ctx,
+			);
+			await waitOnExecutionContext(ctx);
+			return res.json<any>();
+		};
+
+		const substituted = await shadow('Ola Lisboa bom noite ontem', 'Olá, Lisboa! Bom dia.');
+		expect(substituted).toMatchObject({ transcript: 'Ola Lisboa bom noite ontem', score: 0.6 });
+		expect(substituted.counts).toEqual({ match: 3, substitution: 1, miss: 0, extra: 1 });
+		expect(substituted.words.map((w: any) => [w.text, w.result, w.heard])).toEqual([
+			['Olá', 'match', 'Ola'],
+			['Lisboa', 'match', 'Lisboa'],
+			['Bom', 'match', 'bom'],
+			['dia', 'substitution', 'noite'],
+		]);
+		expect(substituted.extra).toEqual([{ text: 'ontem', start: 1.6, end: 2 }]);
+
+		const missed = await shadow('Bom Ana', 'Bom dia, Ana.');
+		expect(missed.words.map((w: any) => w.result)).toEqual(['match', 'miss', 'match']);
+		expect(missed.words[1]).toEqual({ text: 'dia', charStart: 4, charEnd: 7, result: 'miss' });
+		expect(missed.score).toBe(0.667);
+
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage?.sttSeconds).toBe(3);
+	});
+
+	it('sends routes configured for the compatible provider to its base URL and model', async () => {
+		const deviceId = 'provider-compatible';
+		const job = await startJob(deviceId);
+		let forwarded: any;
+		fetchMock
+			.get('https://llm.internal.example')
+			.intercept({
+				path: '/v1/chat/completions',
+				method: 'POST',
+				headers: { authorization: 'Bearer local-key' },
+				body: (b) => ((forwarded = JSON.parse(b)), true),
+			})
+			.reply(200, { choices: [{ message: { content: 'hi' } }], usage: { prompt_tokens: 3, completion_tokens: 1 } });
+
+		const res = await callWith(
+			{
+				MODEL_ROUTES: JSON.stringify({ chat: { provider: 'compatible', model: 'llama-3.1-8b' }, moderation: { provider: 'fake' } }),
+				COMPATIBLE_BASE_URL: 'https://llm.internal.example/v1/',
+				COMPATIBLE_API_KEY: 'local-key',
+			},
+			'/chat',
+			deviceId,
+			job,
+			{ model: 'gpt-5-nano', messages: [] },
+		);
+		expect(res.status).toBe(200);
+		expect(forwarded.model).toBe('llama-3.1-8b');
+	});
+});
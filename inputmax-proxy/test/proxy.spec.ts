@@ -0,0 +1,610 @@
+import { env, createExecutionContext, createScheduledController, fetchMock, runInDurableObject, waitOnExecutionContext, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, it, expect, vi } from 'vitest';
+import worker from '../src';
+import { call, startJob } from './helpers';
+
+beforeAll(() => {
+	fetchMock.activate();
+	fetchMock.disableNetConnect();
+});
+
+afterEach(() => fetchMock.assertNoPendingInterceptors());
+
+function mockChat(completionTokens: number) {
+	fetchMock
+		.get('https://api.openai.com')
+		.intercept({ path: '/v1/chat/completions', method: 'POST' })
+		.reply(200, { choices: [{ message: { content: 'ok' } }], usage: { prompt_tokens: 10, completion_tokens: completionTokens } });
+}
+
+function mockSpeech() {
+	fetchMock.get('https://api.openai.com').intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'mp3-bytes');
+}
+
+describe('job usage budgets', () => {
+	it('returns the budget with the job, costing at most the credits held', async () => {
+		const job = await startJob('budget-start', 2);
+		// The per-credit mix costs 1.58 credits at the default prices, so priced usage is scaled by 1/1.58
+		expect(job.budget).toEqual({ chatCalls: 200, promptTokens: 506_329, completionTokens: 189_873, ttsChars: 101_265, sttSeconds: 4556 });
+	});
+
+	it('rejects empty /tts text before touching the budget', async () => {
+		const job = await startJob('tts-empty');
+		for (const text of ['', '   \n', undefined]) {
+			const res = await call('/tts', 'tts-empty', job, { text });
+			expect(res.status).toBe(400);
+			expect(await res.json()).toEqual({ error: 'invalid_request', errors: [{ field: 'text', message: 'must be a non-empty string' }] });
+		}
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName('tts-empty'));
+		expect((await ledger.getHold('tts-empty', job.jobId))?.usage?.ttsChars ?? 0).toBe(0);
+	});
+
+	it('stops /tts once the character budget is spent, charging only audio that was produced', async () => {
+		const job = await startJob('budget-tts');
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(503, { error: 'busy' });
+		expect((await call('/tts', 'budget-tts', job, { text: 'a'.repeat(40_000) })).status).toBe(503);
+		mockSpeech();
+		expect((await call('/tts', 'budget-tts', job, { text: 'a'.repeat(40_000) })).status).toBe(200);
+
+		// The check happens before synthesis, so the call that crosses the budget is still served and charged
+		mockSpeech();
+		expect((await call('/tts', 'budget-tts', job, { text: 'b'.repeat(20_000) })).status).toBe(200);
+		const res = await call('/tts', 'budget-tts', job, { text: 'c'.repeat(10) });
+		expect(res.status).toBe(403);
+		expect(await res.json()).toMatchObject({ error: 'job_budget_exceeded', exceeded: 'ttsChars', usage: { ttsChars: 60_000 } });
+	});
+
+	it('meters completion tokens reported by OpenAI', async () => {
+		const job = await startJob('budget-chat');
+		mockChat(90_000);
+		expect((await call('/chat', 'budget-chat', job, { model: 'gpt-5-nano', messages: [] })).status).toBe(200);
+		mockChat(5_000);
+		expect((await call('/chat', 'budget-chat', job, { model: 'gpt-5-nano', messages: [] })).status).toBe(200);
+
+		const res = await call('/chat', 'budget-chat', job, { model: 'gpt-5-nano', messages: [] });
+		expect(res.status).toBe(403);
+		expect(await res.json()).toMatchObject({ exceeded: 'completionTokens', usage: { chatCalls: 2, completionTokens: 95_000 } });
+	});
+
+	it('treats a budget that is not a number as used up', async () => {
+		const job = await startJob('budget-nan');
+		const stub = env.LEDGER.get(env.LEDGER.idFromName('budget-nan'));
+		await runInDurableObject(stub, async (_, state) => {
+			const hold: any = await state.storage.get(`hold:${job.jobId}`);
+			await state.storage.put(`hold:${job.jobId}`, { ...hold, amount: NaN, budget: { ...hold.budget, ttsChars: NaN } });
+		});
+
+		const res = await call('/tts', 'budget-nan', job, { text: 'Olá.' });
+		expect(res.status).toBe(403);
+		expect(await res.json()).toMatchObject({ error: 'job_budget_exceeded', exceeded: 'ttsChars' });
+	});
+});
+
+describe('chat request contract', () => {
+	it('rejects unlisted models, oversized output and tools with field-level errors', async () => {
+		const deviceId = 'chat-contract';
+		const job = await startJob(deviceId);
+		const res = await call('/chat', deviceId, job, {
+			model: 'gpt-4.5-preview',
+			messages: [{ role: 'user', content: 'a'.repeat(20_001) }],
+			max_tokens: 1_000_000,
+			n: 10,
+			tools: [{ type: 'function', function: { name: 'x' } }],
+		});
+		expect(res.status).toBe(400);
+		const body = await res.json<any>();
+		expect(body.error).toBe('invalid_chat_request');
+		expect(body.errors.map((e: any) => e.field)).toEqual(['model', 'messages[0].content', 'max_tokens', 'n', 'tools']);
+
+		// Nothing was forwarded or charged
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage?.chatCalls).toBe(0);
+	});
+
+	it('strips fields outside the contract before forwarding', async () => {
+		const deviceId = 'chat-strip';
+		const job = await startJob(deviceId);
+		let forwarded: any;
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST', body: (b) => ((forwarded = JSON.parse(b)), true) })
+			.reply(200, { choices: [{ message: { content: 'ok' } }] });
+
+		const res = await call('/chat', deviceId, job, {
+			model: 'gpt-5-nano',
+			messages: [{ role: 'user', content: 'hi' }],
+			user: 'someone',
+			metadata: { a: 1 },
+			temperature: 0.2,
+		});
+		expect(res.status).toBe(200);
+		expect(forwarded).toEqual({ model: 'gpt-5-nano', messages: [{ role: 'user', content: 'hi' }], temperature: 0.2 });
+	});
+});
+
+describe('usage-metered commit', () => {
+	it('charges for recorded usage and refunds the rest of the hold', async () => {
+		const deviceId = 'metered-commit';
+		const job = await startJob(deviceId, 3);
+		mockChat(400_000);
+		await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [] });
+		mockSpeech();
+		await call('/tts', deviceId, job, { text: 'a'.repeat(20_000) });
+
+		const res = await SELF.fetch('http://example.com/jobs/commit', {
+			method: 'POST',
+			headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+			body: JSON.stringify({ jobId: job.jobId }),
+		});
+		const body = await res.json<any>();
+		// 10 prompt + 400k completion tokens and 20k TTS chars → 0.000005 + 1.6 + 0.15 credits;
+		// one whole credit is taken now and 0.75 carries to the next job
+		expect(body).toMatchObject({ cost: 1.75, charged: 1, carry: 0.75, held: 3, refunded: 2, balance: 2 });
+		expect(body.breakdown.subtotal).toBeCloseTo(1.75, 3);
+		expect(body.breakdown.lines.find((l: any) => l.item === 'ttsChars')).toEqual({
+			item: 'ttsChars',
+			quantity: 20_000,
+			unitPrice: 0.0075,
+			per: 1000,
+			credits: 0.15,
+		});
+	});
+
+	it('charges small and large jobs held at one credit by what they used', async () => {
+		// Distinct text per job so the TTS cache does not make the second one free
+		const commit = async (deviceId: string, completionTokens: number, ttsChars: number, letter: string) => {
+			const job = await startJob(deviceId);
+			mockChat(completionTokens);
+			await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [] });
+			mockSpeech();
+			await call('/tts', deviceId, job, { text: letter.repeat(ttsChars) });
+			const res = await SELF.fetch('http://example.com/jobs/commit', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+				body: JSON.stringify({ jobId: job.jobId }),
+			});
+			return res.json<any>();
+		};
+
+		const small = [await commit('metered-small', 1_000, 1_000, 'p'), await commit('metered-small', 1_000, 1_000, 'q')];
+		const large = [await commit('metered-large', 90_000, 40_000, 'x'), await commit('metered-large', 90_000, 40_000, 'y')];
+		// Small: the 0.1 minimum each time. Large: 0.36 + 0.3 credits each time, so the second job crosses a whole credit.
+		expect(small.map((c) => [c.cost, c.charged, c.carry])).toEqual([[0.1, 0, 0.1], [0.1, 0, 0.2]]);
+		expect(large.map((c) => [c.cost, c.charged, c.carry])).toEqual([[0.66, 0, 0.66], [0.66, 1, 0.32]]);
+		expect(large[1].balance).toBe(small[1].balance - 1);
+	});
+});
+
+describe('streaming chat', () => {
+	it('passes the SSE stream through and meters the final usage chunk', async () => {
+		const deviceId = 'chat-stream';
+		const job = await startJob(deviceId);
+		const sse = [
+			'data: {"choices":[{"delta":{"content":"Hola"}}]}',
+			'data: {"choices":[{"delta":{"content":" mundo"}}]}',
+			'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":34}}',
+			'data: [DONE]',
+			'',
+		].join('\n\n');
+		let forwarded: any;
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({
+				path: '/v1/chat/completions',
+				method: 'POST',
+				body: (b) => ((forwarded = JSON.parse(b)), true),
+			})
+			.reply(200, sse, { headers: { 'content-type': 'text/event-stream' } });
+
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [], stream: true });
+		expect(res.headers.get('content-type')).toBe('text/event-stream');
+		expect(await res.text()).toBe(sse);
+		expect(forwarded.stream_options).toEqual({ include_usage: true });
+
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		await expect.poll(async () => (await ledger.getHold(deviceId, job.jobId))?.usage).toMatchObject({
+			chatCalls: 1,
+			promptTokens: 12,
+			completionTokens: 34,
+		});
+	});
+});
+
+describe('TTS cache', () => {
+	it('serves repeated segments from the cache without charging the job', async () => {
+		const deviceId = 'tts-cache';
+		const job = await startJob(deviceId);
+		mockSpeech();
+		const first = await call('/tts', deviceId, job, { text: 'Buenos  días, Ana.', language: 'Spanish' });
+		expect(first.headers.get('x-tts-cache')).toBe('miss');
+		await first.arrayBuffer();
+		await expect.poll(async () => (await env.AUDIO.list({ prefix: 'tts-cache/' })).objects.length).toBeGreaterThan(0);
+
+		// Whitespace differences normalize to the same cache entry; no upstream interceptor is left
+		const second = await call('/tts', deviceId, job, { text: ' Buenos días,  Ana. ', language: 'Spanish' });
+		expect(second.headers.get('x-tts-cache')).toBe('hit');
+		expect(await second.text()).toBe('mp3-bytes');
+
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage?.ttsChars).toBe('Buenos días, Ana.'.length);
+	});
+});
+
+describe('TTS batch', () => {
+	it('synthesizes every segment once and returns a manifest with download URLs', async () => {
+		const deviceId = 'tts-batch';
+		const job = await startJob(deviceId);
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'mp3-bytes').times(2);
+
+		const res = await call('/tts/batch', deviceId, job, {
+			segments: [
+				{ id: 1, text: 'Olá, Lisboa.', language: 'Portuguese' },
+				{ id: 'en-1', text: 'Hello, Lisbon.', language: 'English', speed: 'slow' },
+			],
+		});
+		expect(res.status).toBe(200);
+		const manifest = await res.json<any>();
+		expect(manifest).toMatchObject({ ok: true, failed: 0, format: 'mp3' });
+		expect(manifest.segments.map((s: any) => [s.id, s.ok, s.file])).toEqual([
+			['1', true, '1.mp3'],
+			['en-1', true, 'en-1.mp3'],
+		]);
+
+		const audio = await SELF.fetch(`http://example.com${manifest.segments[1].url}`, { headers: { 'X-Device-Id': deviceId } });
+		expect(await audio.text()).toBe('mp3-bytes');
+		const other = await SELF.fetch(`http://example.com${manifest.segments[1].url}`, { headers: { 'X-Device-Id': 'tts-batch-other' } });
+		expect(other.status).toBe(404);
+
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage?.ttsChars).toBe('Olá, Lisboa.'.length + 'Hello, Lisbon.'.length);
+	});
+
+	it('reports failures per segment so only those are retried', async () => {
+		const deviceId = 'tts-batch-partial';
+		const job = await startJob(deviceId);
+		const speech = fetchMock.get('https://api.openai.com');
+		speech.intercept({ path: '/v1/audio/speech', method: 'POST', body: (b) => b.includes('Um') }).reply(200, 'mp3-one');
+		speech.intercept({ path: '/v1/audio/speech', method: 'POST', body: (b) => b.includes('Dois') }).reply(503, { error: 'busy' });
+
+		const first = await (await call('/tts/batch', deviceId, job, { segments: [{ id: 'a', text: 'Um.' }, { id: 'b', text: 'Dois.' }] })).json<any>();
+		expect(first).toMatchObject({ ok: false, failed: 1 });
+		expect(first.segments[1]).toEqual({ id: 'b', ok: false, error: 'upstream_503', retryable: true });
+
+		speech.intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'mp3-two');
+		const retry = await (await call('/tts/batch', deviceId, job, { segments: [{ id: 'b', text: 'Dois.' }] })).json<any>();
+		expect(retry).toMatchObject({ ok: true, segments: [{ id: 'b', ok: true, cache: 'miss' }] });
+
+		// The failed attempt was not charged, so each segment is paid for once
+		const ledger = env.LEDGER.get(env.LEDGER.idFromName(deviceId));
+		expect((await ledger.getHold(deviceId, job.jobId))?.usage?.ttsChars).toBe('Um.'.length + 'Dois.'.length);
+	});
+
+	it('keeps each device\'s audio apart under the same job id and deletes it once expired', async () => {
+		const start = (deviceId: string) =>
+			SELF.fetch('http://example.com/jobs/start', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId },
+				body: JSON.stringify({ amount: 1, jobId: 'shared-job' }),
+			}).then((r) => r.json<any>());
+		const speech = fetchMock.get('https://api.openai.com');
+		speech.intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'victim-audio');
+		speech.intercept({ path: '/v1/audio/speech', method: 'POST' }).reply(200, 'other-audio');
+
+		const victim = await (await call('/tts/batch', 'tts-batch-victim', await start('tts-batch-victim'), { segments: [{ id: 's1', text: 'Meu.' }] })).json<any>();
+		const intruder = await call('/tts/batch', 'tts-batch-intruder', await start('tts-batch-intruder'), { segments: [{ id: 's1', text: 'Teu.' }] });
+		expect(await intruder.json()).toMatchObject({ ok: true });
+
+		const url = `http://example.com${victim.segments[0].url}`;
+		expect(await (await SELF.fetch(url, { headers: { 'X-Device-Id': 'tts-batch-victim' } })).text()).toBe('victim-audio');
+
+		const ctx = createExecutionContext();
+		await worker.scheduled(createScheduledController({ scheduledTime: Date.now() + 8 * 86_400_000 }), env, ctx);
+		await waitOnExecutionContext(ctx);
+		expect((await env.AUDIO.list({ prefix: 'tts-batch/tts-batch-victim/' })).objects).toEqual([]);
+		expect((await SELF.fetch(url, { headers: { 'X-Device-Id': 'tts-batch-victim' } })).status).toBe(404);
+	});
+
+	it('rejects malformed batches with field errors', async () => {
+		const job = await startJob('tts-batch-bad');
+		const res = await call('/tts/batch', 'tts-batch-bad', job, {
+			format: 'ogg',
+			segments: [{ id: 'a', text: 'x' }, { id: 'a', text: '' }, { id: 'c', text: 'x'.repeat(4097) }],
+		});
+		expect(res.status).toBe(400);
+		const { errors } = await res.json<any>();
+		expect(errors.map((e: any) => e.field)).toEqual(['format', 'segments[1].id', 'segments[1].text', 'segments[2].text']);
+	});
+});
+
+describe('TTS dialogue', () => {
+	function mockVoices(times: number, voices: string[]) {
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/audio/speech', method: 'POST' })
+			.reply(200, (opts) => {
+				voices.push(JSON.parse(String(opts.body)).voice);
+				return 'mp3-bytes';
+			})
+			.times(times);
+	}
+
+	it('gives each speaker a distinct voice and keeps the cast for the series', async () => {
+		const deviceId = 'tts-dialogue';
+		const job = await startJob(deviceId);
+		const voices: string[] = [];
+		mockVoices(5, voices);
+
+		const script = [
+			{ speaker: 'Ana', text: 'Olá, Rui!' },
+			{ speaker: 'Rui', text: 'Olá, Ana.' },
+			{ speaker: 'Ana', text: 'Tudo bem?' },
+		];
+		const first = await (await call('/tts/dialogue', deviceId, job, { lines: script, language: 'Portuguese', seriesId: 'lisboa' })).json<any>();
+		expect(first).toMatchObject({ ok: true, failed: 0 });
+		expect(first.cast.Ana).not.toBe(first.cast.Rui);
+		expect(first.lines.map((l: any) => [l.index, l.speaker, l.voice, l.file])).toEqual([
+			[0, 'Ana', first.cast.Ana, 'dialogue-1.mp3'],
+			[1, 'Rui', first.cast.Rui, 'dialogue-2.mp3'],
+			[2, 'Ana', first.cast.Ana, 'dialogue-3.mp3'],
+		]);
+		expect(voices.sort()).toEqual([first.cast.Ana, first.cast.Ana, first.cast.Rui].sort());
+
+		// A later part introduces a new speaker; the existing cast is kept
+		const next = await (
+			await call('/tts/dialogue', deviceId, job, {
+				dialogueId: 'part-2',
+				language: 'Portuguese',
+				seriesId: 'lisboa',
+				lines: [
+					{ speaker: 'Marta', text: 'Bom dia a todos.' },
+					{ speaker: 'Rui', text: 'Bom dia, Marta.' },
+				],
+			})
+		).json<any>();
+		expect(next.cast.Rui).toBe(first.cast.Rui);
+		expect([first.cast.Ana, first.cast.Rui]).not.toContain(next.cast.Marta);
+	});
+
+	it('casts from the configured pool for the language and honours explicit choices', async () => {
+		const deviceId = 'tts-dialogue-pool';
+		const job = await startJob(deviceId);
+		const ctx = createExecutionContext();
+		const voices: string[] = [];
+		mockVoices(2, voices);
+		const res = await worker.fetch(
+			new Request('http://example.com/tts/dialogue', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+				body: JSON.stringify({
+					language: 'japanese',
+					cast: { Yuki: 'verse' },
+					lines: [
+						{ speaker: 'Yuki', text: 'こんにちは。' },
+						{ speaker: 'Ken', text: 'こんにちは、ユキ。' },
+					],
+				}),
+			}),
+			{ ...env, VOICE_CASTING: JSON.stringify({ Japanese: ['nova', 'onyx'] }) },
+			ctx,
+		);
+		const body = await res.json<any>();
+		await waitOnExecutionContext(ctx);
+		expect(body.cast).toEqual({ Yuki: 'verse', Ken: expect.stringMatching(/^(nova|onyx)$/) });
+	});
+
+	it('rejects scripts without speakers', async () => {
+		const job = await startJob('tts-dialogue-bad');
+		const res = await call('/tts/dialogue', 'tts-dialogue-bad', job, { lines: [{ text: 'Olá.' }] });
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_dialogue', errors: [{ field: 'lines[0].speaker' }] });
+	});
+});
+
+describe('TTS word timings', () => {
+	it('aligns transcribed words to the input and spreads misheard ones over the gap', async () => {
+		const deviceId = 'tts-timings';
+		const job = await startJob(deviceId);
+		mockSpeech();
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/audio/transcriptions', method: 'POST' })
+			.reply(200, {
+				text: 'Olá Lisbon bomb dia',
+				duration: 2.1,
+				words: [
+					{ word: 'Olá', start: 0, end: 0.5 },
+					{ word: 'Lisbon', start: 0.5, end: 1 },
+					{ word: 'bomb', start: 1, end: 1.5 },
+					{ word: 'dia', start: 1.5, end: 2 },
+				],
+			});
+
+		const res = await call('/tts', deviceId, job, { text: 'Olá, Lisboa! Bom dia.', timings: true });
+		const body = await res.json<any>();
+		expect(atob(body.audio)).toBe('mp3-bytes');
+		expect(body.words.map((w: any) => [w.text, w.start, w.end])).toEqual([
+			['Olá', 0, 0.5],
+			['Lisboa', 0.5, 1],
+			['Bom', 1, 1.5],
+			['dia', 1.5, 2],
+		]);
+	});
+
+	it('still returns the audio when the transcription fails', async () => {
+		const deviceId = 'tts-timings-fail';
+		const job = await startJob(deviceId);
+		mockSpeech();
+		fetchMock.get('https://api.openai.com').intercept({ path: '/v1/audio/transcriptions', method: 'POST' }).reply(500, { error: 'down' });
+
+		const body = await (await call('/tts', deviceId, job, { text: 'Olá.', timings: true })).json<any>();
+		expect(body).toMatchObject({ words: null, timingsError: 'upstream_500' });
+		expect(atob(body.audio)).toBe('mp3-bytes');
+	});
+});
+
+describe('speech-to-text', () => {
+	it('requires a job and an audio file with its reference text', async () => {
+		const form = new FormData();
+		form.append('reference', 'Bom dia.');
+		const noJob = await SELF.fetch('http://example.com/stt', { method: 'POST', headers: { 'X-Device-Id': 'stt-bad' }, body: form });
+		expect(noJob.status).toBe(401);
+		await noJob.arrayBuffer();
+
+		const job = await startJob('stt-bad');
+		const res = await SELF.fetch('http://example.com/stt', {
+			method: 'POST',
+			headers: { 'X-Device-Id': 'stt-bad', 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+			body: form,
+		});
+		expect(res.status).toBe(400);
+		expect(await res.json()).toMatchObject({ error: 'invalid_request', message: 'audio file is required' });
+	});
+
+	it('forwards the recording to the transcription endpoint', async () => {
+		const deviceId = 'stt-openai';
+		const job = await startJob(deviceId);
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/audio/transcriptions', method: 'POST' })
+			.reply(200, { text: 'Bom dia.', duration: 1.2, words: [{ word: 'Bom', start: 0, end: 0.5 }, { word: 'dia', start: 0.5, end: 1.1 }] });
+
+		const form = new FormData();
+		form.append('audio', new File(['m4a-bytes'], 'take.m4a'));
+		form.append('reference', 'Bom dia.');
+		const res = await SELF.fetch('http://example.com/stt', {
+			method: 'POST',
+			headers: { 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+			body: form,
+		});
+		expect(await res.json()).toMatchObject({ score: 1, counts: { match: 2 }, duration: 1.2 });
+	});
+});
+
+describe('chat moderation', () => {
+	const balance = async (deviceId: string) =>
+		(await SELF.fetch('http://example.com/credits/balance', { headers: { 'X-Device-Id': deviceId } })).json<any>();
+	const flags = async (deviceId: string) => {
+		const { keys } = await env.CREDITS.list({ prefix: 'moderation_flag:' });
+		const entries = await Promise.all(keys.map(async (k) => JSON.parse((await env.CREDITS.get(k.name))!)));
+		return entries.filter((e) => e.deviceId === deviceId);
+	};
+
+	it('blocks a request before forwarding it and releases the hold', async () => {
+		const deviceId = 'moderation-input';
+		const job = await startJob(deviceId);
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A story FLAG:sexual' }] });
+		expect(res.status).toBe(422);
+		expect(await res.json()).toEqual({ error: 'content_blocked', stage: 'input', categories: ['sexual'], holdReleased: true });
+		expect(await balance(deviceId)).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('forwards flagged requests and records them for review', async () => {
+		const deviceId = 'moderation-flag';
+		const job = await startJob(deviceId);
+		mockChat(5);
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A duel FLAG:violence' }] });
+		expect(res.status).toBe(200);
+		await res.arrayBuffer();
+		await expect.poll(() => flags(deviceId)).toEqual([
+			expect.objectContaining({ jobId: job.jobId, stage: 'input', action: 'flag', categories: ['violence'], excerpt: 'A duel FLAG:violence' }),
+		]);
+	});
+
+	it('keeps every flag recorded in the same millisecond', async () => {
+		const deviceId = 'moderation-same-ms';
+		const job = await startJob(deviceId);
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(200, { choices: [{ message: { content: 'En garde FLAG:violence' } }], usage: { prompt_tokens: 5, completion_tokens: 5 } });
+
+		const now = vi.spyOn(Date, 'now').mockReturnValue(Date.now());
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A duel FLAG:violence' }] });
+		await res.arrayBuffer();
+		now.mockRestore();
+		await expect.poll(async () => (await flags(deviceId)).map((f) => f.stage).sort()).toEqual(['input', 'output']);
+	});
+
+	it('blocks a completion before returning it, without charging the job', async () => {
+		const deviceId = 'moderation-output';
+		const job = await startJob(deviceId);
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(200, { choices: [{ message: { content: 'Once upon a time FLAG:self-harm/instructions' } }], usage: { prompt_tokens: 5, completion_tokens: 5 } });
+
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A story' }] });
+		expect(res.status).toBe(422);
+		expect(await res.json()).toMatchObject({ stage: 'output', categories: ['self-harm/instructions'] });
+		expect(await balance(deviceId)).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('checks streamed completions before passing them on', async () => {
+		const deviceId = 'moderation-stream';
+		const job = await startJob(deviceId);
+		const sse = ['data: {"choices":[{"delta":{"content":"FLAG:"}}]}', 'data: {"choices":[{"delta":{"content":"hate"}}]}', 'data: [DONE]', ''].join('\n\n');
+		fetchMock
+			.get('https://api.openai.com')
+			.intercept({ path: '/v1/chat/completions', method: 'POST' })
+			.reply(200, sse, { headers: { 'content-type': 'text/event-stream' } });
+
+		const res = await call('/chat', deviceId, job, { model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A story' }], stream: true });
+		expect(res.status).toBe(422);
+		expect(await res.json()).toMatchObject({ stage: 'output', categories: ['hate'] });
+	});
+
+	it('streams under the default policy, holding back only the window being checked', async () => {
+		const deviceId = 'moderation-streaming';
+		const job = await startJob(deviceId);
+		const event = (content: string) => new TextEncoder().encode(`data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+		let upstream!: ReadableStreamDefaultController<Uint8Array>;
+		const body = new ReadableStream<Uint8Array>({ start: (c) => void (upstream = c) });
+		const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValueOnce(new Response(body, { headers: { 'content-type': 'text/event-stream' } }));
+		upstream.enqueue(event('Era uma vez. '.repeat(40)));
+
+		const ctx = createExecutionContext();
+		const res = await worker.fetch(
+			new Request('http://example.com/chat', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+				body: JSON.stringify({ model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A story' }], stream: true }),
+			}),
+			env,
+			ctx,
+		);
+		fetchSpy.mockRestore();
+		expect(res.status).toBe(200);
+
+		// The first window reaches the app while the upstream is still open
+		const reader = res.body!.getReader();
+		expect(new TextDecoder().decode((await reader.read()).value)).toContain('Era uma vez.');
+
+		// A later window that is blocked ends the stream and releases the hold
+		upstream.enqueue(event('FLAG:hate'));
+		upstream.close();
+		let rest = '';
+		for (let r = await reader.read(); !r.done; r = await reader.read()) rest += new TextDecoder().decode(r.value);
+		expect(rest).not.toContain('FLAG:hate');
+		expect(JSON.parse(rest.replace(/^data: /, ''))).toMatchObject({ error: 'content_blocked', stage: 'output', categories: ['hate'] });
+		await waitOnExecutionContext(ctx);
+		expect(await balance(deviceId)).toMatchObject({ balance: 3, reserved: 0 });
+	});
+
+	it('follows the configured policy per category', async () => {
+		const deviceId = 'moderation-policy';
+		const job = await startJob(deviceId);
+		const ctx = createExecutionContext();
+		const res = await worker.fetch(
+			new Request('http://example.com/chat', {
+				method: 'POST',
+				headers: { 'content-type': 'application/json', 'X-Device-Id': deviceId, 'X-Job-Id': job.jobId, 'X-Job-Token': job.jobToken },
+				body: JSON.stringify({ model: 'gpt-5-nano', messages: [{ role: 'user', content: 'A duel FLAG:violence' }] }),
+			}),
+			{ ...env, MODERATION_POLICY: JSON.stringify({ violence: 'block' }) },
+			ctx,
+		);
+		expect(res.status).toBe(422);
+		expect(await res.json()).toMatchObject({ stage: 'input', categories: ['violence'] });
+		await waitOnExecutionContext(ctx);
+	});
+});
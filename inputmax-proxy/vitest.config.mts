@@ -1,10 +1,21 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { TEST_ROOT_SHA256 } from './test/fixtures/storekit-chain';
 
 export default defineWorkersConfig({
 	test: {
 		poolOptions: {
 			workers: {
 				wrangler: { configPath: './wrangler.jsonc' },
+				miniflare: {
+					// Trust the test StoreKit signing chain alongside Apple's root; classify with the fake moderator;
+					// enable the admin routes
+					bindings: {
+						APPSTORE_EXTRA_ROOT_SHA256: TEST_ROOT_SHA256,
+						MODEL_ROUTES: JSON.stringify({ moderation: { provider: 'fake' } }),
+						ADMIN_SECRET: 'test-admin',
+						REVIEW_CODE: 'AppReview2025',
+					},
+				},
 			},
 		},
 	},